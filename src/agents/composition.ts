@@ -0,0 +1,87 @@
+import { IMakerTask, MakerConfig, IVoteResult, IMakerExecutor } from '../types/maker.js';
+import { VotingAgent } from './voting.js';
+import { recordTimeout } from '../utils/timeouts.js';
+import { fitBlocks, DEFAULT_CONTEXT_MAX_CHARS } from '../utils/context.js';
+import { textExecutorConfig } from '../executors/index.js';
+
+/**
+ * Agent responsible for composing subtask results into a parent result.
+ * Composition is sampled, red-flagged and voted on exactly like a minimal task,
+ * with its samples drawn by the text executor and its records kept in
+ * `metadata.composition` of the parent.
+ */
+export class CompositionAgent {
+  private votingAgent: VotingAgent;
+  private executor: IMakerExecutor | null = null;
+
+  constructor(votingAgent: VotingAgent) {
+    this.votingAgent = votingAgent;
+  }
+
+  /**
+   * Draws composition samples from `executor` instead of the voting agent's
+   * executor. Pass null to use the voting agent's executor.
+   */
+  public setExecutor(executor: IMakerExecutor | null): void {
+    this.executor = executor;
+  }
+
+  /**
+   * Runs a voting round on candidate compositions of the task's subtask results.
+   * On success the winning composition is stored in `task.result`.
+   *
+   * @param task - A task whose subtasks have all completed.
+   * @param config - Configuration for the MAKER framework.
+   * @returns A promise that resolves to the voting result.
+   */
+  public async composeResults(task: IMakerTask, config: MakerConfig): Promise<IVoteResult> {
+    console.log(`[CompositionAgent] Composing results for task: ${task.id}`);
+    const timeoutSeconds = config.timeouts?.aggregationSeconds;
+    const voteResult = await this.votingAgent.runVotingRound(task, config, {
+      prompt: this.constructCompositionPrompt(task, config),
+      timeoutSeconds,
+      executor: this.executor ?? undefined,
+      temperature: textExecutorConfig(config)?.temperature,
+      // The parent's own records, e.g. from a vote before it was decomposed, stay untouched.
+      metadataKey: 'composition',
+      // The concatenation is a sound fallback, so composition never waits on the user.
+      skipVeto: true
+    });
+    if (voteResult.timedOut && timeoutSeconds) {
+      recordTimeout(task, 'aggregation', timeoutSeconds);
+    }
+    return voteResult;
+  }
+
+  /**
+   * Constructs the prompt that asks for a single result synthesized from the subtasks.
+   * The results share the `context.maxChars` budget of a task's context bundle and
+   * are cut the same way, treating the last subtask as the nearest.
+   */
+  private constructCompositionPrompt(task: IMakerTask, config: MakerConfig): string {
+    const blocks = (task.subtasks || []).map((subtask, i) => `### ${i + 1}. ${subtask.description}\n${subtask.result ?? ''}`);
+    // A zero budget turns off the context bundle, not the results a composition is made of.
+    const maxChars = config.context?.maxChars || DEFAULT_CONTEXT_MAX_CHARS;
+    const fitted = fitBlocks([...blocks].reverse(), maxChars, config.context?.truncation);
+    if (fitted.truncated) {
+      console.warn(`[CompositionAgent] Subtask results for task ${task.id} were cut to ${maxChars} characters.`);
+    }
+    const results = fitted.selected.map(entry => entry.block).reverse().join('\n\n');
+
+    return `
+You are a composition agent in the MAKER framework.
+Your goal is to combine the results of the subtasks below into one coherent result for their parent task.
+
+Parent task: "${task.description}"
+
+Instructions:
+1. Keep every concrete artifact from the subtask results (code, commands, file names, decisions).
+2. Remove duplication and resolve inconsistencies between the subtask results.
+3. Put code in markdown code blocks.
+4. Return only the composed result, without commentary about the process.
+
+## Subtask results
+${results}
+`;
+  }
+}
@@ -1,6 +1,10 @@
-import { IMakerTask, MakerConfig, IDecompositionResult } from '../types/maker.js';
+import { IMakerTask, MakerConfig, IDecompositionResult, IMakerExecutor } from '../types/maker.js';
 import { TaskTreeManager } from '../utils/task-tree.js';
-import { runJulesTask } from '../bridges/jules.js';
+import { JulesExecutor } from '../executors/jules.js';
+import { Semaphore } from '../utils/concurrency.js';
+import { RunBudget } from '../utils/budget.js';
+import { throwIfAborted, RunCancelledError } from '../utils/cancellation.js';
+import { runSession, recordTimeout, PhaseTimeoutError } from '../utils/timeouts.js';
 
 /**
  * Agent responsible for decomposing complex tasks into smaller, manageable subtasks.
@@ -8,24 +12,64 @@ import { runJulesTask } from '../bridges/jules.js';
  */
 export class DecompositionAgent {
   private taskTreeManager: TaskTreeManager;
+  private executor: IMakerExecutor;
+  private sessionLimiter: Semaphore | null = null;
+  private budget: RunBudget | null = null;
+  private signal: AbortSignal | null = null;
 
-  constructor(taskTreeManager: TaskTreeManager) {
+  constructor(taskTreeManager: TaskTreeManager, executor: IMakerExecutor = new JulesExecutor()) {
     this.taskTreeManager = taskTreeManager;
+    this.executor = executor;
   }
 
   /**
-   * Decomposes a task into subtasks using an LLM-based approach via Jules.
+   * Replaces the executor used to run decomposition prompts.
+   */
+  public setExecutor(executor: IMakerExecutor): void {
+    this.executor = executor;
+  }
+
+  /**
+   * Shares a cap on in-flight executor sessions with other agents.
+   * Pass null to remove the cap.
+   */
+  public setSessionLimiter(limiter: Semaphore | null): void {
+    this.sessionLimiter = limiter;
+  }
+
+  /**
+   * Charges started sessions and their estimated tokens to a run budget.
+   * Pass null to stop tracking.
+   */
+  public setBudget(budget: RunBudget | null): void {
+    this.budget = budget;
+  }
+
+  /**
+   * Stops work when the run's signal is aborted. Pass null to ignore cancellation.
+   */
+  public setSignal(signal: AbortSignal | null): void {
+    this.signal = signal;
+  }
+
+  /**
+   * Decomposes a task into subtasks using an LLM-based approach via the configured executor.
    * 
    * @param task - The task to decompose.
    * @param config - Configuration for the MAKER framework.
+   * @param options - `force` decomposes one level past `maxRecursionDepth`, e.g. to recover a failed leaf.
    * @returns A promise that resolves to the decomposition result.
    */
-  public async decomposeTask(task: IMakerTask, config: MakerConfig): Promise<IDecompositionResult> {
+  public async decomposeTask(
+    task: IMakerTask,
+    config: MakerConfig,
+    options: { force?: boolean } = {}
+  ): Promise<IDecompositionResult> {
     console.log(`[DecompositionAgent] Decomposing task: ${task.id} - ${task.description}`);
 
     // Check if we've reached the maximum recursion depth.
     const currentDepth = task.metadata?.depth || 0;
-    if (currentDepth >= config.maxRecursionDepth) {
+    if (currentDepth >= config.maxRecursionDepth && !options.force) {
       console.log(`[DecompositionAgent] Max recursion depth reached for task: ${task.id}`);
       return {
         subtasks: [],
@@ -34,21 +78,37 @@ export class DecompositionAgent {
     }
 
     const repoName = task.metadata?.repoName || 'default-repo';
-    const prompt = this.constructDecompositionPrompt(task, config, currentDepth);
+    const prompt = this.constructDecompositionPrompt(task, config, currentDepth, options.force === true);
+
+    // Throws BudgetExceededError or RunCancelledError, which must not turn into a fallback decomposition.
+    throwIfAborted(this.signal);
+    this.budget?.reserveSessions(1);
+    this.budget?.recordText(prompt);
 
     try {
-      const result = await runJulesTask({
-        repoName,
-        description: prompt,
-        wait: true
-      });
+      const run = () => runSession(
+        this.executor,
+        { repoName, prompt },
+        'decomposition',
+        config.timeouts?.decompositionSeconds,
+        this.signal
+      );
+      const result = this.sessionLimiter ? await this.sessionLimiter.run(run) : await run();
+
+      this.budget?.recordText(result.output);
 
       if (result.status === 'failed') {
-        throw new Error(result.error || 'Jules task failed without error message');
+        throw new Error(result.error || `${this.executor.name} task failed without error message`);
       }
 
       return this.parseDecompositionResponse(result.output || '', task);
     } catch (error: any) {
+      if (error instanceof RunCancelledError) {
+        throw error;
+      }
+      if (error instanceof PhaseTimeoutError) {
+        recordTimeout(task, error.phase, error.seconds);
+      }
       console.error(`[DecompositionAgent] Error during decomposition: ${error.message}`);
       
       // Fallback to a basic decomposition to allow the process to continue if LLM fails
@@ -67,7 +127,10 @@ export class DecompositionAgent {
   /**
    * Constructs a specialized prompt for task decomposition.
    */
-  private constructDecompositionPrompt(task: IMakerTask, config: MakerConfig, depth: number): string {
+  private constructDecompositionPrompt(task: IMakerTask, config: MakerConfig, depth: number, force = false): string {
+    const retryNote = force
+      ? '\nThis task failed when executed directly. Split it into finer steps and do not mark it as minimal.\n'
+      : '';
     return `
 You are a task decomposition agent in the MAKER framework.
 Your goal is to break down a complex task into 2-5 smaller, manageable subtasks.
@@ -75,18 +138,23 @@ Your goal is to break down a complex task into 2-5 smaller, manageable subtasks.
 Task to decompose: "${task.description}"
 Current recursion depth: ${depth}
 Max recursion depth: ${config.maxRecursionDepth}
-
+${retryNote}
 Instructions:
 1. Analyze the task and determine if it can be broken down into smaller, logical steps.
 2. If the task is simple enough to be executed directly (minimal), indicate this.
 3. Return your response ONLY as a valid JSON object with the following structure:
 {
   "subtasks": ["subtask 1", "subtask 2", ...],
+  "dependencies": { "1": [0] },
+  "acceptanceCriteria": { "0": ["criterion 1", ...], "1": [...] },
   "rationale": "Explanation of the decomposition strategy",
   "isMinimal": true
 }
 
 If the task is NOT minimal, set "isMinimal" to false and provide subtasks.
+"dependencies" maps a subtask's zero-based index to the indices of the subtasks it needs finished first.
+Omit it or use {} when the subtasks are independent.
+"acceptanceCriteria" maps a subtask's zero-based index to short, checkable conditions its result must meet.
 If "isMinimal" is true, "subtasks" must be an empty array [].
 Do not include any other text, markdown formatting, or explanations outside the JSON object.
 `;
@@ -113,15 +181,63 @@ Do not include any other text, markdown formatting, or explanations outside the
         };
       }
 
+      const subtasks: string[] = Array.isArray(parsed.subtasks) ? parsed.subtasks : [];
       return {
-        subtasks: Array.isArray(parsed.subtasks) ? parsed.subtasks : [],
-        rationale: parsed.rationale || 'Decomposition successful.'
+        subtasks,
+        rationale: parsed.rationale || 'Decomposition successful.',
+        dependencies: this.parseDependencies(parsed.dependencies, subtasks.length),
+        acceptanceCriteria: this.parseAcceptanceCriteria(parsed.acceptanceCriteria, subtasks.length)
       };
     } catch (error: any) {
       throw new Error(`Failed to parse decomposition response: ${error.message}`);
     }
   }
 
+  /**
+   * Keeps only well-formed dependency entries that refer to valid subtask indices.
+   */
+  private parseDependencies(raw: unknown, subtaskCount: number): Record<number, number[]> | undefined {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return undefined;
+    }
+
+    const isIndex = (value: unknown): value is number =>
+      Number.isInteger(value) && (value as number) >= 0 && (value as number) < subtaskCount;
+
+    const dependencies: Record<number, number[]> = {};
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+      const index = Number(key);
+      if (!isIndex(index) || !Array.isArray(value)) continue;
+      const prerequisites = value.filter(isIndex).filter(prerequisite => prerequisite !== index);
+      if (prerequisites.length > 0) {
+        dependencies[index] = prerequisites;
+      }
+    }
+
+    return Object.keys(dependencies).length > 0 ? dependencies : undefined;
+  }
+
+  /**
+   * Keeps only non-empty string criteria for valid subtask indices.
+   */
+  private parseAcceptanceCriteria(raw: unknown, subtaskCount: number): Record<number, string[]> | undefined {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return undefined;
+    }
+
+    const criteria: Record<number, string[]> = {};
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+      const index = Number(key);
+      if (!Number.isInteger(index) || index < 0 || index >= subtaskCount || !Array.isArray(value)) continue;
+      const items = value.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+      if (items.length > 0) {
+        criteria[index] = items.map(item => item.trim());
+      }
+    }
+
+    return Object.keys(criteria).length > 0 ? criteria : undefined;
+  }
+
   /**
    * Determines if a task is "minimal" and does not need further decomposition.
    * A minimal task is one that is simple enough to be executed directly.
@@ -160,18 +276,32 @@ Do not include any other text, markdown formatting, or explanations outside the
    */
   public addSubtasksToTree(parentTask: IMakerTask, root: IMakerTask, result: IDecompositionResult): IMakerTask {
     const currentDepth = parentTask.metadata?.depth || 0;
+    const ids: string[] = [];
 
-    for (const subtaskDescription of result.subtasks) {
+    result.subtasks.forEach((subtaskDescription, index) => {
       const subtask: IMakerTask = {
         id: this.generateId(),
         description: subtaskDescription,
         status: 'pending',
+        ...(result.acceptanceCriteria?.[index] ? { acceptanceCriteria: result.acceptanceCriteria[index] } : {}),
         metadata: {
           depth: currentDepth + 1
         }
       };
 
       this.taskTreeManager.addTask(parentTask.id, subtask, root);
+      ids.push(subtask.id);
+    });
+
+    // Dependencies are added once all siblings exist so that they may point forward.
+    for (const [index, prerequisites] of Object.entries(result.dependencies || {})) {
+      for (const prerequisite of prerequisites) {
+        try {
+          this.taskTreeManager.addDependency(root, ids[Number(index)], ids[prerequisite]);
+        } catch (error: any) {
+          console.warn(`[DecompositionAgent] Ignoring dependency of subtask ${index} on ${prerequisite}: ${error.message}`);
+        }
+      }
     }
 
     return root;
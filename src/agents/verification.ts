@@ -0,0 +1,155 @@
+import { IMakerTask, MakerConfig, IMakerExecutor, IVerificationCheck, IVerificationResult } from '../types/maker.js';
+import { JulesExecutor } from '../executors/jules.js';
+import { Semaphore } from '../utils/concurrency.js';
+import { RunBudget } from '../utils/budget.js';
+import { throwIfAborted, RunCancelledError } from '../utils/cancellation.js';
+import { runLocalChecks } from '../utils/verification.js';
+import { runSession } from '../utils/timeouts.js';
+
+/**
+ * Agent responsible for verifying a leading candidate before it wins a vote.
+ * Runs the configured local checks and, if enabled, an LLM check of the
+ * candidate against the task's acceptance criteria.
+ */
+export class VerificationAgent {
+  private executor: IMakerExecutor;
+  private sessionLimiter: Semaphore | null = null;
+  private budget: RunBudget | null = null;
+  private signal: AbortSignal | null = null;
+
+  constructor(executor: IMakerExecutor = new JulesExecutor()) {
+    this.executor = executor;
+  }
+
+  /**
+   * Replaces the executor used for LLM checks.
+   */
+  public setExecutor(executor: IMakerExecutor): void {
+    this.executor = executor;
+  }
+
+  /**
+   * Shares a cap on in-flight executor sessions with other agents.
+   * Pass null to remove the cap.
+   */
+  public setSessionLimiter(limiter: Semaphore | null): void {
+    this.sessionLimiter = limiter;
+  }
+
+  /**
+   * Charges started sessions and their estimated tokens to a run budget.
+   * Pass null to stop tracking.
+   */
+  public setBudget(budget: RunBudget | null): void {
+    this.budget = budget;
+  }
+
+  /**
+   * Stops work when the run's signal is aborted. Pass null to ignore cancellation.
+   */
+  public setSignal(signal: AbortSignal | null): void {
+    this.signal = signal;
+  }
+
+  /**
+   * Returns true if the config asks for any verification.
+   */
+  public isEnabled(config: MakerConfig): boolean {
+    return (config.verification?.commands?.length ?? 0) > 0 || config.verification?.llm === true;
+  }
+
+  /**
+   * Verifies a candidate result for a task. The LLM check only runs when the
+   * local checks passed and the task has acceptance criteria.
+   *
+   * @param task - The task the candidate was sampled for.
+   * @param content - The candidate result.
+   * @param config - Configuration for the MAKER framework.
+   * @param timeoutSeconds - Time left for all checks together, e.g. the rest of the voting round.
+   * @returns A promise that resolves to the verification result.
+   */
+  public async verify(task: IMakerTask, content: string, config: MakerConfig, timeoutSeconds?: number): Promise<IVerificationResult> {
+    const verification = config.verification || {};
+    const deadline = timeoutSeconds !== undefined ? Date.now() + timeoutSeconds * 1000 : Infinity;
+    const checks = await runLocalChecks(content, task, verification, timeoutSeconds);
+
+    const criteria = task.acceptanceCriteria || [];
+    if (verification.llm && criteria.length > 0 && checks.every(check => check.passed)) {
+      checks.push(await this.checkCriteria(task, content, criteria, deadline));
+    }
+
+    const passed = checks.every(check => check.passed);
+    console.log(`[VerificationAgent] Candidate for task ${task.id} ${passed ? 'passed' : 'failed'} verification.`);
+    return { passed, checks };
+  }
+
+  /**
+   * Asks the executor whether the candidate meets every acceptance criterion.
+   * An unusable answer, or none by `deadline` (epoch ms), counts as a failed check.
+   */
+  private async checkCriteria(task: IMakerTask, content: string, criteria: string[], deadline: number): Promise<IVerificationCheck> {
+    if (Date.now() >= deadline) {
+      return { name: 'acceptance criteria', passed: false, output: 'No time left to check the acceptance criteria.' };
+    }
+    const prompt = this.constructVerificationPrompt(task, content, criteria);
+
+    // Throws BudgetExceededError or RunCancelledError, which are left to the orchestrator.
+    throwIfAborted(this.signal);
+    this.budget?.reserveSessions(1);
+    this.budget?.recordText(prompt);
+
+    try {
+      const run = () => runSession(
+        this.executor,
+        { repoName: task.metadata?.repoName || 'unknown/repo', prompt },
+        'voting-round',
+        Number.isFinite(deadline) ? Math.max(0, deadline - Date.now()) / 1000 : undefined,
+        this.signal
+      );
+      const result = this.sessionLimiter ? await this.sessionLimiter.run(run) : await run();
+      this.budget?.recordText(result.output);
+
+      if (result.status === 'failed') {
+        throw new Error(result.error || `${this.executor.name} task failed without error message`);
+      }
+
+      const jsonMatch = (result.output || '').match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('No JSON found in output');
+      }
+      const parsed = JSON.parse(jsonMatch[0]);
+      return { name: 'acceptance criteria', passed: parsed.passed === true, output: parsed.reason };
+    } catch (error: any) {
+      if (error instanceof RunCancelledError) {
+        throw error;
+      }
+      console.warn(`[VerificationAgent] Acceptance check for task ${task.id} failed: ${error.message}`);
+      return { name: 'acceptance criteria', passed: false, output: error.message };
+    }
+  }
+
+  /**
+   * Constructs the prompt that judges a candidate against the acceptance criteria.
+   */
+  private constructVerificationPrompt(task: IMakerTask, content: string, criteria: string[]): string {
+    return `
+You are a verification agent in the MAKER framework.
+Your goal is to decide whether a candidate result meets every acceptance criterion of its task.
+
+Task: "${task.description}"
+
+## Acceptance criteria
+${criteria.map(criterion => `- ${criterion}`).join('\n')}
+
+## Candidate result
+${content}
+
+Return your response ONLY as a valid JSON object with the following structure:
+{
+  "passed": true,
+  "reason": "Which criteria are met or missed"
+}
+Set "passed" to false if any criterion is not met.
+`;
+  }
+}
@@ -1,51 +1,238 @@
-import { IMakerTask, MakerConfig, IVoteResult, IVotingCandidate } from '../types/maker.js';
-import { runJulesTask, getJulesTaskStatus, IJulesTaskResult } from '../bridges/jules.js';
+import { IMakerTask, MakerConfig, IVoteResult, IVotingCandidate, IMakerExecutor, IExecutorResult, IVotingOptions, IVerificationResult, ISampleStats, Canonicalizer, ISamplingConfig } from '../types/maker.js';
+import { JulesExecutor } from '../executors/jules.js';
 import { checkRedFlags } from '../utils/red-flagging.js';
 import { askUserVeto } from '../utils/hitl.js';
+import { Semaphore } from '../utils/concurrency.js';
+import { RunBudget } from '../utils/budget.js';
+import { throwIfAborted, sleep, RunCancelledError } from '../utils/cancellation.js';
+import { MakerEventBus } from '../utils/events.js';
+import { recordTimeout } from '../utils/timeouts.js';
+import { CandidatePool } from '../utils/canonicalize.js';
+import { ReliabilityEstimator, fixedVotingThreshold } from '../utils/reliability.js';
+import { checkSampling } from '../utils/sampling.js';
+
+/**
+ * Returns the leading candidate if it is ahead of the runner-up by at least k votes.
+ * This is the stopping rule of "first-to-ahead-by-k" voting.
+ * 
+ * @param votes - Vote counts keyed by candidate index.
+ * @param k - The required margin.
+ * @returns The leader and its margin, or null if no candidate is ahead by k.
+ */
+export function findLeaderAheadByK(votes: Record<number, number>, k: number): { index: number; margin: number } | null {
+  const sortedIndices = Object.keys(votes)
+    .map(Number)
+    .sort((a, b) => votes[b] - votes[a]);
+
+  if (sortedIndices.length === 0) {
+    return null;
+  }
+
+  const leaderIndex = sortedIndices[0];
+  const leaderVotes = votes[leaderIndex];
+  const runnerUpVotes = sortedIndices.length > 1 ? votes[sortedIndices[1]] : 0;
+  const margin = leaderVotes - runnerUpVotes;
+
+  return margin >= k ? { index: leaderIndex, margin } : null;
+}
+
+/**
+ * Number of samples the leader needs at the least to get ahead by k, assuming
+ * every one of them votes for it. With no votes yet that is k.
+ */
+export function samplesNeeded(votes: Record<number, number>, k: number): number {
+  const counts = Object.values(votes).sort((a, b) => b - a);
+  const margin = (counts[0] ?? 0) - (counts[1] ?? 0);
+  return Math.max(1, k - margin);
+}
+
+const DEFAULT_SAMPLING: Required<ISamplingConfig> = {
+  mode: 'fixed',
+  batchSize: 3,
+  maxRounds: 10,
+  pollIntervalSeconds: 2,
+  backoffFactor: 1.5,
+  maxPollIntervalSeconds: 10
+};
+
+/**
+ * The sampling settings for a task: its own overrides, then `MakerConfig.sampling`, then the defaults.
+ *
+ * @throws Error if a setting is out of range, e.g. a zero poll interval.
+ */
+export function resolveSampling(config: MakerConfig, task: IMakerTask): Required<ISamplingConfig> {
+  const defined = (settings: ISamplingConfig = {}) =>
+    Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined && value !== null));
+  const configured = defined(config.sampling);
+  const overrides = defined(task.sampling);
+  checkSampling(configured, 'sampling');
+  checkSampling(overrides, `Task ${task.id} sampling`);
+  return { ...DEFAULT_SAMPLING, ...configured, ...overrides };
+}
 
 /**
  * Agent responsible for voting on candidate solutions.
  * Implements the "first-to-ahead-by-k" voting logic.
  */
 export class VotingAgent {
+  private executor: IMakerExecutor;
+  private sessionLimiter: Semaphore | null = null;
+  private budget: RunBudget | null = null;
+  private signal: AbortSignal | null = null;
+  private events: MakerEventBus | null = null;
+  private canonicalizers: Record<string, Canonicalizer> = {};
+  private reliability: ReliabilityEstimator | null = null;
+
+  constructor(executor: IMakerExecutor = new JulesExecutor()) {
+    this.executor = executor;
+  }
+
+  /**
+   * Replaces the executor used to draw samples.
+   */
+  public setExecutor(executor: IMakerExecutor): void {
+    this.executor = executor;
+  }
+
+  /**
+   * Shares a cap on in-flight executor sessions with other agents.
+   * Pass null to remove the cap.
+   */
+  public setSessionLimiter(limiter: Semaphore | null): void {
+    this.sessionLimiter = limiter;
+  }
+
+  /**
+   * Charges started sessions and their estimated tokens to a run budget.
+   * Pass null to stop tracking.
+   */
+  public setBudget(budget: RunBudget | null): void {
+    this.budget = budget;
+  }
+
+  /**
+   * Stops work when the run's signal is aborted. Pass null to ignore cancellation.
+   */
+  public setSignal(signal: AbortSignal | null): void {
+    this.signal = signal;
+  }
+
+  /**
+   * Publishes sample, red-flag, vote and winner events to `events`. Pass null to stop.
+   */
+  public setEvents(events: MakerEventBus | null): void {
+    this.events = events;
+  }
+
+  /**
+   * Makes custom canonicalizers, e.g. those of the run's plugins, available to
+   * `canonicalization.canonicalizers`.
+   */
+  public setCanonicalizers(canonicalizers: Record<string, Canonicalizer>): void {
+    this.canonicalizers = canonicalizers;
+  }
+
+  /**
+   * Chooses k from the run's reliability estimate instead of `votingThreshold`
+   * and feeds it every round's outcome. Pass null to use the fixed threshold.
+   */
+  public setReliability(reliability: ReliabilityEstimator | null): void {
+    this.reliability = reliability;
+  }
+
   /**
    * Runs a voting round for a given task.
    * Samples candidate solutions and determines a winner based on the voting threshold.
    * 
    * @param task - The task to vote on.
    * @param config - Configuration for the MAKER framework.
+   * @param options - Optional prompt override, e.g. the description with its upstream context,
+   * a time limit for the round and a verifier that each leading candidate must pass before it can win.
    * @returns A promise that resolves to the voting result.
    */
-  public async runVotingRound(task: IMakerTask, config: MakerConfig): Promise<IVoteResult> {
+  public async runVotingRound(task: IMakerTask, config: MakerConfig, options: IVotingOptions = {}): Promise<IVoteResult> {
     console.log(`[VotingAgent] Starting voting round for task: ${task.id}`);
     
-    const k = config.votingThreshold;
-    const candidates = new Map<string, number>(); // content -> index
-    const candidateList: IVotingCandidate[] = []; // index -> candidate
+    // The round's records go under `metadataKey` if given, e.g. for a composition round.
+    const record = (fields: Record<string, unknown>) => {
+      const key = options.metadataKey;
+      task.metadata = key
+        ? { ...task.metadata, [key]: { ...task.metadata?.[key], ...fields } }
+        : { ...task.metadata, ...fields };
+    };
+
+    const estimate = this.reliability?.chooseK();
+    const k = estimate?.k ?? fixedVotingThreshold(config);
+    if (estimate) {
+      console.log(`[VotingAgent] Using k=${k} for ${estimate.steps} steps at estimated accuracy ${estimate.accuracy}.`);
+      record({ reliability: estimate });
+    }
+    const pool = new CandidatePool(config.canonicalization, this.canonicalizers);
+    const candidateList: IVotingCandidate[] = pool.candidates; // index -> candidate
     const votes: Record<number, number> = {};
+    const rejected = new Map<number, IVerificationResult>(); // index -> failed verification
+    let winnerVerification: IVerificationResult | undefined;
+    const stats: ISampleStats = { samples: 0, votes: 0, redFlagged: 0, failed: 0, timedOut: 0 };
     
     let winnerIndex = -1;
     let maxVotes = 0;
     let totalVotes = 0;
     
     // Configuration for sampling
-    const batchSize = 3; // Number of parallel samples per batch
-    const maxRounds = 10; // Maximum number of batches to run
+    const limiter = this.sessionLimiter;
+    const executor = options.executor ?? this.executor;
+    const sampling = resolveSampling(config, task);
+    const maxBatchSize = Math.max(1, Math.min(sampling.batchSize, limiter?.limit ?? Infinity)); // Parallel samples per batch
+    const maxRounds = sampling.maxRounds; // Maximum number of batches to run
+    let sampleIndex = 0;
     const repoName = task.metadata?.repoName || 'unknown/repo'; // Fallback if not provided
+    const prompt = options.prompt ?? task.description;
+    const sampleMs = (config.timeouts?.sampleSeconds ?? 60) * 1000;
+    const roundDeadline = options.timeoutSeconds ? Date.now() + options.timeoutSeconds * 1000 : Infinity;
+    let timedOut = false;
 
     for (let round = 0; round < maxRounds; round++) {
+      if (Date.now() >= roundDeadline) {
+        timedOut = true;
+        break;
+      }
+      const batchSize = sampling.mode === 'adaptive' ? Math.min(maxBatchSize, samplesNeeded(votes, k)) : maxBatchSize;
       console.log(`[VotingAgent] Round ${round + 1}/${maxRounds}: Sampling ${batchSize} candidates...`);
       
-      // 1. Launch parallel tasks
-      const sessionIds = await this.launchBatch(task, repoName, batchSize);
-      
-      // 2. Poll for results
-      const results = await this.pollBatch(sessionIds);
+      // Throws BudgetExceededError or RunCancelledError, which are left to the orchestrator.
+      throwIfAborted(this.signal);
+      this.budget?.reserveSessions(batchSize);
+      for (let i = 0; i < batchSize; i++) {
+        this.budget?.recordText(prompt);
+      }
+
+      // The whole batch holds its session slots until polling finishes.
+      await limiter?.acquire(batchSize);
+      let results: IExecutorResult[];
+      try {
+        // 1. Launch parallel tasks
+        const sessionIds = await this.launchBatch(executor, prompt, repoName, batchSize, sampleIndex, config, options.temperature);
+        sampleIndex += batchSize;
+        
+        // 2. Poll for results until the samples or the round run out of time
+        results = await this.pollBatch(sessionIds, Math.min(Date.now() + sampleMs, roundDeadline), sampling, executor);
+      } finally {
+        limiter?.release(batchSize);
+      }
       
       // 3. Process results
       for (const result of results) {
+        this.budget?.recordText(result.output);
+        stats.samples++;
+        await this.events?.emit('sample:received', { task, result });
+        if (result.status === 'timed-out') {
+          console.warn(`[VotingAgent] Session ${result.sessionId} timed out.`);
+          stats.timedOut++;
+          continue;
+        }
         if (result.status !== 'completed' || !result.output) {
           console.warn(`[VotingAgent] Task failed or no output for session: ${result.sessionId}`);
+          stats.failed++;
           continue;
         }
 
@@ -53,77 +240,113 @@ export class VotingAgent {
         const redFlagResult = checkRedFlags(result.output);
         if (redFlagResult.isRedFlagged) {
           console.log(`[VotingAgent] Red flag detected for session ${result.sessionId}: ${redFlagResult.reason}`);
+          await this.events?.emit('sample:red-flagged', { task, result, reason: redFlagResult.reason });
+          stats.redFlagged++;
           continue; // Discard red-flagged result
         }
 
-        // Canonicalize output (simple trim for now)
-        const content = result.output.trim();
-        
-        // Register candidate if new
-        let index = candidates.get(content);
-        if (index === undefined) {
-          index = candidateList.length;
-          candidates.set(content, index);
-          candidateList.push({ id: `candidate-${index}`, content });
+        // Group the sample with the candidate its canonical form matches
+        const { index, isNew } = pool.assign(result.output, result.sessionId);
+        if (rejected.has(index)) {
+          console.log(`[VotingAgent] Sample ${result.sessionId} repeats a candidate that failed verification.`);
+          continue;
+        }
+        if (isNew) {
           votes[index] = 0;
         }
 
         // Cast vote
         votes[index]++;
         totalVotes++;
+        stats.votes++;
         
         console.log(`[VotingAgent] Vote cast for candidate ${index}. Total votes: ${votes[index]}`);
+        await this.events?.emit('vote:cast', { task, candidate: candidateList[index], votes: votes[index] });
       }
 
-      // 4. Check for winner
-      const sortedIndices = Object.keys(votes)
-        .map(Number)
-        .sort((a, b) => votes[b] - votes[a]);
-      
-      if (sortedIndices.length > 0) {
-        const leaderIndex = sortedIndices[0];
-        const leaderVotes = votes[leaderIndex];
-        const runnerUpVotes = sortedIndices.length > 1 ? votes[sortedIndices[1]] : 0;
-        
-        if (leaderVotes >= runnerUpVotes + k) {
-          console.log(`[VotingAgent] Winner found! Candidate ${leaderIndex} is ahead by ${leaderVotes - runnerUpVotes} (threshold: ${k}).`);
-          winnerIndex = leaderIndex;
-          maxVotes = leaderVotes;
+      // 4. Check for winner; a leader that fails verification is rejected and sampling continues.
+      let leader = findLeaderAheadByK(votes, k);
+      while (leader && options.verify) {
+        // Running out of round time is no verdict on the candidate.
+        const remainingMs = roundDeadline - Date.now();
+        if (remainingMs <= 0) {
+          leader = null;
+          break;
+        }
+        const verification = await options.verify(
+          candidateList[leader.index].content,
+          Number.isFinite(remainingMs) ? remainingMs / 1000 : undefined
+        );
+        if (verification.passed) {
+          winnerVerification = verification;
           break;
         }
+        if (Date.now() >= roundDeadline) {
+          leader = null;
+          break;
+        }
+        console.log(`[VotingAgent] Candidate ${leader.index} failed verification. Continuing to sample.`);
+        rejected.set(leader.index, verification);
+        delete votes[leader.index];
+        await this.events?.emit('candidate:rejected', { task, candidate: candidateList[leader.index], verification });
+        leader = findLeaderAheadByK(votes, k);
+      }
+      if (leader) {
+        console.log(`[VotingAgent] Winner found! Candidate ${leader.index} is ahead by ${leader.margin} (threshold: ${k}).`);
+        winnerIndex = leader.index;
+        maxVotes = votes[leader.index];
+        await this.events?.emit('winner:chosen', { task, candidate: candidateList[winnerIndex], votes: maxVotes, source: 'vote' });
+        break;
+      }
+      if (Date.now() >= roundDeadline) {
+        timedOut = true;
+        break;
       }
     }
 
-    // If no winner found after max rounds, trigger HITL veto
-    if (winnerIndex === -1 && candidateList.length > 0) {
+    // If no winner found after max rounds, trigger HITL veto. A round that ran
+    // out of time ends without asking, since the user may not be there either.
+    if (timedOut) {
+      console.warn(`[VotingAgent] Voting round for task ${task.id} timed out after ${options.timeoutSeconds}s without a winner.`);
+    } else if (winnerIndex === -1 && options.skipVeto) {
+      console.warn(`[VotingAgent] Max rounds reached without clear winner for task ${task.id}.`);
+    } else if (winnerIndex === -1 && candidateList.length > rejected.size) {
       console.warn('[VotingAgent] Max rounds reached without clear winner. Triggering HITL veto.');
-      const selectedIndex = await askUserVeto(task, candidateList);
+      const eligible = candidateList.filter((_candidate, index) => !rejected.has(index));
+      const selectedIndex = eligible.length > 0 ? await askUserVeto(task, eligible) : null;
       
       if (selectedIndex !== null) {
-        winnerIndex = selectedIndex;
+        winnerIndex = candidateList.indexOf(eligible[selectedIndex]);
         maxVotes = votes[winnerIndex] || 0;
         console.log(`[VotingAgent] User selected candidate ${winnerIndex}.`);
+        await this.events?.emit('winner:chosen', { task, candidate: candidateList[winnerIndex], votes: maxVotes, source: 'user' });
       } else {
         console.log('[VotingAgent] User vetoed all candidates.');
       }
     }
 
+    this.reliability?.observe(stats, Math.max(0, ...Object.values(votes)));
+    record({ sampleStats: stats, ...(candidateList.length > 0 ? { candidates: candidateList } : {}) });
+    if (stats.timedOut > 0) {
+      recordTimeout(task, 'sample', sampleMs / 1000, `${stats.timedOut} of ${stats.samples} samples timed out`);
+    }
+    if (rejected.size > 0) {
+      record({ rejectedCandidates: [...rejected].map(([index, verification]) => ({ ...candidateList[index], verification })) });
+    }
+
     if (winnerIndex === -1) {
       return {
         winnerIndex: -1,
         confidence: 0,
-        rationale: 'No valid candidates found or user vetoed all options.',
-        votes: {}
+        rationale: timedOut ? 'The voting round timed out.' : 'No valid candidates found or user vetoed all options.',
+        votes: {},
+        ...(timedOut ? { timedOut } : {})
       };
     }
 
-    // Update task with winner and candidates
+    // Update task with winner and vote counts
     task.result = candidateList[winnerIndex].content;
-    task.metadata = {
-      ...task.metadata,
-      candidates: candidateList,
-      voteCounts: votes
-    };
+    record({ voteCounts: votes, ...(winnerVerification ? { verification: winnerVerification } : {}) });
 
     // Calculate confidence (simple ratio)
     const confidence = totalVotes > 0 ? maxVotes / totalVotes : 0;
@@ -137,28 +360,49 @@ export class VotingAgent {
   }
 
   /**
-   * Launches a batch of Jules tasks in parallel (conceptually).
+   * Launches a batch of executor sessions in parallel (conceptually).
    */
-  private async launchBatch(task: IMakerTask, repoName: string, batchSize: number): Promise<string[]> {
+  private async launchBatch(
+    executor: IMakerExecutor,
+    prompt: string,
+    repoName: string,
+    batchSize: number,
+    firstSampleIndex: number,
+    config: MakerConfig,
+    temperature?: number
+  ): Promise<string[]> {
     const promises: Promise<string>[] = [];
     
     for (let i = 0; i < batchSize; i++) {
-      promises.push(this.startTask(task, repoName));
+      promises.push(this.startTask(executor, prompt, repoName, this.getSampleTemperature(firstSampleIndex + i, config, temperature)));
     }
     
     return Promise.all(promises);
   }
 
   /**
-   * Starts a single Jules task and returns its session ID.
+   * The first sample is drawn greedily; later samples use the given or the
+   * configured temperature so that votes are not all identical by construction.
+   */
+  private getSampleTemperature(sampleIndex: number, config: MakerConfig, temperature?: number): number {
+    return sampleIndex === 0 ? 0 : temperature ?? config.executor?.temperature ?? 0.1;
+  }
+
+  /**
+   * Starts a single executor session and returns its session ID.
    */
-  private async startTask(task: IMakerTask, repoName: string): Promise<string> {
+  private async startTask(executor: IMakerExecutor, prompt: string, repoName: string, temperature: number): Promise<string> {
     try {
-      const result = await runJulesTask({
+      const result = await executor.start({
         repoName,
-        description: task.description,
-        wait: false
+        prompt,
+        wait: false,
+        temperature
       });
+      if (result.status === 'failed') {
+        console.warn(`[VotingAgent] Failed to start task: ${result.error}`);
+        return 'failed';
+      }
       return result.sessionId;
     } catch (error) {
       console.error('[VotingAgent] Failed to start task:', error);
@@ -167,26 +411,35 @@ export class VotingAgent {
   }
 
   /**
-   * Polls a batch of sessions until completion.
+   * Polls a batch of sessions until completion or until `deadline` (epoch ms),
+   * backing off between polls as configured in `sampling`. Sessions still
+   * running at the deadline are cancelled and reported as timed out.
    */
-  private async pollBatch(sessionIds: string[]): Promise<IJulesTaskResult[]> {
+  private async pollBatch(
+    sessionIds: string[],
+    deadline = Date.now() + 60_000,
+    sampling: ISamplingConfig = DEFAULT_SAMPLING,
+    executor: IMakerExecutor = this.executor
+  ): Promise<IExecutorResult[]> {
     const activeSessions = sessionIds.filter(id => id !== 'failed');
-    const results: Map<string, IJulesTaskResult> = new Map();
+    const results: Map<string, IExecutorResult> = new Map();
     const completed = new Set<string>();
+    const { pollIntervalSeconds, backoffFactor, maxPollIntervalSeconds } = { ...DEFAULT_SAMPLING, ...sampling };
+    let intervalMs = pollIntervalSeconds * 1000;
     
-    // Poll until all are done or timeout
-    const maxPolls = 30; // 30 * 2s = 60s timeout per batch
-    
-    for (let i = 0; i < maxPolls; i++) {
-      if (completed.size === activeSessions.length) break;
-      
-      await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2s
+    while (completed.size < activeSessions.length && Date.now() < deadline) {
+      await sleep(Math.min(intervalMs, deadline - Date.now()), this.signal);
+      intervalMs = Math.min(intervalMs * backoffFactor, Math.max(maxPollIntervalSeconds * 1000, pollIntervalSeconds * 1000));
+      if (this.signal?.aborted) {
+        await this.cancelSessions(executor, activeSessions.filter(id => !completed.has(id)));
+        throw new RunCancelledError();
+      }
       
       for (const sessionId of activeSessions) {
         if (completed.has(sessionId)) continue;
         
         try {
-          const status = await getJulesTaskStatus(sessionId);
+          const status = await executor.getStatus(sessionId);
           if (status.status === 'completed' || status.status === 'failed') {
             results.set(sessionId, status);
             completed.add(sessionId);
@@ -200,6 +453,22 @@ export class VotingAgent {
       }
     }
     
-    return activeSessions.map(id => results.get(id) || { sessionId: id, status: 'failed', error: 'Timeout' });
+    const unfinished = activeSessions.filter(id => !completed.has(id));
+    await this.cancelSessions(executor, unfinished);
+    return activeSessions.map(id => results.get(id) || { sessionId: id, status: 'timed-out', error: 'Timeout' });
+  }
+
+  /**
+   * Cancels sessions that are still running when the run is stopped or they time out.
+   */
+  private async cancelSessions(executor: IMakerExecutor, sessionIds: string[]): Promise<void> {
+    for (const sessionId of sessionIds) {
+      try {
+        await executor.cancel(sessionId);
+        console.log(`[VotingAgent] Cancelled session ${sessionId}.`);
+      } catch (error) {
+        console.warn(`[VotingAgent] Failed to cancel session ${sessionId}:`, error);
+      }
+    }
   }
 }
@@ -0,0 +1,273 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+
+/**
+ * A single recorded bridge invocation.
+ */
+export interface ICassetteEntry {
+  command: string;
+  args: string[];
+  cwd?: string;
+  stdin?: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  error?: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+/**
+ * On-disk format of a cassette file.
+ */
+export interface ICassetteFile {
+  version: 1;
+  recordedAt: string;
+  entries: ICassetteEntry[];
+}
+
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * How far a run got through its cassette: the indexes of the entries it
+ * replayed.
+ */
+export interface ICassetteProgress {
+  used: number[];
+}
+
+/**
+ * Options for running a bridge command.
+ */
+export interface IBridgeCommandOptions {
+  cwd?: string;
+  input?: string;
+}
+
+/**
+ * Error shaped like the one thrown by `execFile`, so callers can read
+ * `stdout`, `stderr` and `code` regardless of recording mode.
+ */
+export class BridgeCommandError extends Error {
+  constructor(message: string, public code: number, public stdout: string, public stderr: string) {
+    super(message);
+  }
+}
+
+/** Generated task IDs, as made by the decomposition agent and plan loader. */
+const GENERATED_TASK_ID = /\btask-[a-z0-9]{1,9}\b/g;
+
+/** The process ID in worktree sample IDs, as made by the worktree executor. */
+const WORKTREE_SESSION_PID = /\bworktree-\d+-(?=\d)/g;
+
+/**
+ * Replaces the values that differ between otherwise identical runs, generated
+ * task IDs, worktree sample IDs and paths under the temp directory, with placeholders.
+ */
+function normalizeArg(arg: string): string {
+  return arg.startsWith(os.tmpdir())
+    ? '<tmp>'
+    : arg.replace(GENERATED_TASK_ID, 'task-<id>').replace(WORKTREE_SESSION_PID, 'worktree-<pid>-');
+}
+
+/**
+ * Records bridge invocations to, or replays them from, a cassette file.
+ * In replay mode each recorded entry is served at most once: an unused entry
+ * with identical command and arguments is preferred, otherwise the next unused
+ * entry whose arguments differ only in generated values (temp paths, task IDs,
+ * worktree sample IDs) is used, so that those values do not break replay.
+ */
+export class Cassette {
+  private used = new Set<number>();
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    public readonly mode: CassetteMode,
+    public readonly filePath: string,
+    private file: ICassetteFile
+  ) {}
+
+  /**
+   * Opens a cassette. Recording starts a new file; replay loads an existing one.
+   * When a run is resumed, pass `resume`: recording then appends to the file
+   * and replay skips the entries the earlier run already served.
+   */
+  public static async open(mode: CassetteMode, filePath: string, resume?: ICassetteProgress): Promise<Cassette> {
+    if (mode === 'record' && !(resume && await exists(filePath))) {
+      const cassette = new Cassette(mode, filePath, { version: 1, recordedAt: new Date().toISOString(), entries: [] });
+      await cassette.save();
+      return cassette;
+    }
+
+    try {
+      const data = await fs.readFile(filePath, 'utf-8');
+      const file = JSON.parse(data) as ICassetteFile;
+      if (!Array.isArray(file.entries)) {
+        throw new Error('Cassette must contain an "entries" array');
+      }
+      const cassette = new Cassette(mode, filePath, file);
+      if (mode === 'replay') {
+        cassette.used = new Set(resume?.used);
+      }
+      return cassette;
+    } catch (error: any) {
+      throw new Error(`Failed to load cassette from ${filePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Returns the recorded entries.
+   */
+  public get entries(): ICassetteEntry[] {
+    return this.file.entries;
+  }
+
+  /**
+   * What to save with the run state so that a resumed run can continue the cassette.
+   */
+  public get progress(): ICassetteProgress {
+    return { used: [...this.used].sort((a, b) => a - b) };
+  }
+
+  /**
+   * Appends an entry and persists the cassette.
+   */
+  public async record(entry: ICassetteEntry): Promise<void> {
+    this.file.entries.push(entry);
+    await this.save();
+  }
+
+  /**
+   * Finds and consumes the recorded entry for an invocation.
+   */
+  public take(command: string, args: string[]): ICassetteEntry {
+    const key = JSON.stringify(args);
+    let index = this.file.entries.findIndex((entry, i) =>
+      !this.used.has(i) && entry.command === command && JSON.stringify(entry.args) === key);
+
+    if (index === -1) {
+      const normalized = JSON.stringify(args.map(normalizeArg));
+      index = this.file.entries.findIndex((entry, i) =>
+        !this.used.has(i) && entry.command === command && JSON.stringify(entry.args.map(normalizeArg)) === normalized);
+    }
+
+    if (index === -1) {
+      throw new Error(`No recorded response for: ${command} ${args.join(' ')}`);
+    }
+
+    this.used.add(index);
+    return this.file.entries[index];
+  }
+
+  /**
+   * Writes the cassette to disk. Concurrent saves are serialized.
+   */
+  public save(): Promise<void> {
+    this.saveQueue = this.saveQueue.then(() =>
+      fs.writeFile(this.filePath, JSON.stringify(this.file, null, 2), 'utf-8'));
+    return this.saveQueue;
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let activeCassette: Cassette | null = null;
+
+/**
+ * Sets the cassette used by all bridge commands, or clears it with null.
+ */
+export function useCassette(cassette: Cassette | null): void {
+  activeCassette = cassette;
+}
+
+/**
+ * Runs an external command on behalf of a bridge.
+ * All Jules and GitHub bridge invocations go through here so that they can be
+ * recorded to or replayed from the active cassette. The current environment is
+ * passed explicitly so that PATH overrides made at runtime (e.g. a fake 'gh'
+ * in tests) are honoured.
+ * 
+ * @param command - The executable to run.
+ * @param args - Command-line arguments.
+ * @param options - Working directory and optional stdin.
+ * @returns A promise that resolves to the command's stdout and stderr.
+ */
+export async function runBridgeCommand(
+  command: string,
+  args: string[],
+  options: IBridgeCommandOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+  const cassette = activeCassette;
+
+  if (cassette?.mode === 'replay') {
+    const entry = cassette.take(command, args);
+    if (entry.exitCode !== 0) {
+      throw new BridgeCommandError(entry.error || `Command failed: ${command}`, entry.exitCode, entry.stdout, entry.stderr);
+    }
+    return { stdout: entry.stdout, stderr: entry.stderr };
+  }
+
+  const started = Date.now();
+  const result = await execute(command, args, options);
+
+  if (cassette?.mode === 'record') {
+    await cassette.record({
+      command,
+      args,
+      cwd: options.cwd,
+      stdin: options.input,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: result.error ? result.error.code : 0,
+      error: result.error?.message,
+      startedAt: new Date(started).toISOString(),
+      durationMs: Date.now() - started
+    });
+  }
+
+  if (result.error) {
+    throw result.error;
+  }
+  return { stdout: result.stdout, stderr: result.stderr };
+}
+
+/**
+ * Runs the command for real, capturing output even when it fails.
+ */
+function execute(
+  command: string,
+  args: string[],
+  options: IBridgeCommandOptions
+): Promise<{ stdout: string; stderr: string; error?: BridgeCommandError }> {
+  return new Promise(resolve => {
+    const child = execFile(command, args, {
+      cwd: options.cwd,
+      env: process.env,
+      maxBuffer: 10 * 1024 * 1024
+    }, (error, stdout, stderr) => {
+      const out = stdout.toString();
+      const err = stderr.toString();
+      if (!error) {
+        resolve({ stdout: out, stderr: err });
+        return;
+      }
+      const code = typeof error.code === 'number' ? error.code : 1;
+      resolve({ stdout: out, stderr: err, error: new BridgeCommandError(error.message, code, out, err) });
+    });
+
+    if (options.input !== undefined) {
+      child.stdin?.on('error', () => {
+        // The command may exit without reading its input
+      });
+      child.stdin?.end(options.input);
+    }
+  });
+}
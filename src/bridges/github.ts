@@ -1,7 +1,19 @@
-import { execFile } from 'child_process';
-import { promisify } from 'util';
+import { IRepoSearchResult } from '../types/maker.js';
+import { runBridgeCommand } from './command.js';
 
-const execFileAsync = promisify(execFile);
+/**
+ * Runs the 'gh' CLI.
+ */
+function runGh(args: string[], options: { cwd?: string } = {}) {
+  return runBridgeCommand('gh', args, options);
+}
+
+/**
+ * Runs git.
+ */
+function runGit(args: string[]) {
+  return runBridgeCommand('git', args);
+}
 
 /**
  * Interface for GitHub repository management.
@@ -28,6 +40,14 @@ export interface IGitHubCommit {
   }>;
 }
 
+/**
+ * Interface for a GitHub issue.
+ */
+export interface IGitHubIssue {
+  number: number;
+  url: string;
+}
+
 /**
  * Wrapper for GitHub repository management and operations.
  * These functions typically invoke GitHub MCP tools or the 'gh' CLI.
@@ -44,7 +64,7 @@ export async function cloneRepo(repo: string, localPath: string): Promise<boolea
   try {
     // In a real MAKER environment, this would call 'gh repo clone' or equivalent MCP.
     // For now, we simulate the action and assume success if the environment is configured.
-    await execFileAsync('gh', ['repo', 'clone', repo, localPath]);
+    await runGh(['repo', 'clone', repo, localPath]);
     return true;
   } catch (error) {
     console.error(`[GitHub Bridge] Failed to clone ${repo}:`, error);
@@ -66,7 +86,7 @@ export async function createRepo(name: string, description?: string, isPrivate =
     if (description) {
       args.push('--description', description);
     }
-    const { stdout } = await execFileAsync('gh', args);
+    const { stdout } = await runGh(args);
     const output = stdout.trim();
     
     // Output is usually the repo URL
@@ -87,6 +107,40 @@ export async function createRepo(name: string, description?: string, isPrivate =
   }
 }
 
+/**
+ * Searches GitHub repositories.
+ * @param query - The search query.
+ * @param limit - Maximum number of results (default 10).
+ * @returns A promise that resolves to the matching repositories.
+ */
+export async function searchRepositories(query: string, limit = 10): Promise<IRepoSearchResult[]> {
+  try {
+    const { stdout } = await runGh([
+      'search', 'repos', query,
+      '--limit', String(limit),
+      '--json', 'owner,name,description,stargazersCount,url'
+    ]);
+    const parsed = JSON.parse(stdout) as Array<{
+      owner: { login: string };
+      name: string;
+      description?: string;
+      stargazersCount?: number;
+      url: string;
+    }>;
+
+    return parsed.map(repo => ({
+      owner: repo.owner.login,
+      name: repo.name,
+      description: repo.description || undefined,
+      stars: repo.stargazersCount || 0,
+      url: repo.url
+    }));
+  } catch (error) {
+    console.error(`[GitHub Bridge] Failed to search repositories:`, error);
+    throw error;
+  }
+}
+
 /**
  * Creates a new branch in a GitHub repository.
  * @param localPath - Path to the local repository.
@@ -97,8 +151,8 @@ export async function createRepo(name: string, description?: string, isPrivate =
 export async function createBranch(localPath: string, branchName: string, baseBranch = 'main'): Promise<boolean> {
   console.log(`[GitHub Bridge] Creating branch ${branchName} in ${localPath} from ${baseBranch}...`);
   try {
-    await execFileAsync('git', ['-C', localPath, 'checkout', baseBranch]);
-    await execFileAsync('git', ['-C', localPath, 'checkout', '-b', branchName]);
+    await runGit(['-C', localPath, 'checkout', baseBranch]);
+    await runGit(['-C', localPath, 'checkout', '-b', branchName]);
     return true;
   } catch (error) {
     console.error(`[GitHub Bridge] Failed to create branch ${branchName}:`, error);
@@ -116,11 +170,11 @@ export async function createBranch(localPath: string, branchName: string, baseBr
 export async function commitAndPush(localPath: string, branch: string, message: string): Promise<string> {
   console.log(`[GitHub Bridge] Committing changes in ${localPath} to branch ${branch}...`);
   try {
-    await execFileAsync('git', ['-C', localPath, 'add', '.']);
-    await execFileAsync('git', ['-C', localPath, 'commit', '-m', message]);
-    await execFileAsync('git', ['-C', localPath, 'push', 'origin', branch]);
+    await runGit(['-C', localPath, 'add', '.']);
+    await runGit(['-C', localPath, 'commit', '-m', message]);
+    await runGit(['-C', localPath, 'push', 'origin', branch]);
     
-    const { stdout } = await execFileAsync('git', ['-C', localPath, 'rev-parse', 'HEAD']);
+    const { stdout } = await runGit(['-C', localPath, 'rev-parse', 'HEAD']);
     return stdout.trim();
   } catch (error) {
     console.error(`[GitHub Bridge] Failed to commit and push:`, error);
@@ -140,7 +194,7 @@ export async function commitAndPush(localPath: string, branch: string, message:
 export async function createPullRequest(localPath: string, title: string, body: string, head: string, base = 'main'): Promise<string> {
   console.log(`[GitHub Bridge] Creating PR for ${head} into ${base}...`);
   try {
-    const { stdout } = await execFileAsync('gh', [
+    const { stdout } = await runGh([
       'pr', 'create', 
       '--title', title, 
       '--body', body, 
@@ -155,3 +209,117 @@ export async function createPullRequest(localPath: string, title: string, body:
     throw error;
   }
 }
+
+/**
+ * Applies a unified diff to the working tree of a local repository.
+ * @param localPath - Path to the local repository.
+ * @param patch - The diff to apply.
+ * @returns A promise that resolves to true if the patch applied cleanly.
+ */
+export async function applyPatch(localPath: string, patch: string): Promise<boolean> {
+  console.log(`[GitHub Bridge] Applying patch in ${localPath}...`);
+  try {
+    await runBridgeCommand('git', ['-C', localPath, 'apply', '--index', '-'], {
+      input: patch.endsWith('\n') ? patch : `${patch}\n`
+    });
+    return true;
+  } catch (error) {
+    console.error(`[GitHub Bridge] Failed to apply patch:`, error);
+    return false;
+  }
+}
+
+/**
+ * Creates or updates a label in a GitHub repository.
+ * @param repo - The repo name in 'owner/name' format.
+ * @param name - The label name.
+ * @param color - The label color as a hex string without '#'.
+ * @returns A promise that resolves to true if successful.
+ */
+export async function ensureLabel(repo: string, name: string, color: string): Promise<boolean> {
+  try {
+    await runGh(['label', 'create', name, '--repo', repo, '--color', color, '--force']);
+    return true;
+  } catch (error) {
+    console.error(`[GitHub Bridge] Failed to ensure label ${name}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Creates a new issue.
+ * @param repo - The repo name in 'owner/name' format.
+ * @param title - The issue title.
+ * @param body - The issue body.
+ * @param labels - Labels to apply.
+ * @returns A promise that resolves to the created issue.
+ */
+export async function createIssue(repo: string, title: string, body: string, labels: string[] = []): Promise<IGitHubIssue> {
+  console.log(`[GitHub Bridge] Creating issue "${title}" in ${repo}...`);
+  try {
+    const args = ['issue', 'create', '--repo', repo, '--title', title, '--body', body];
+    for (const label of labels) {
+      args.push('--label', label);
+    }
+    const { stdout } = await runGh(args);
+    const url = stdout.trim().split('\n').pop() || '';
+    const numberMatch = url.match(/\/issues\/(\d+)$/);
+    if (!numberMatch) {
+      throw new Error(`Unexpected output from gh issue create: ${stdout.trim()}`);
+    }
+    return { number: Number(numberMatch[1]), url };
+  } catch (error) {
+    console.error(`[GitHub Bridge] Failed to create issue:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Edits the body and labels of an issue.
+ * @param repo - The repo name in 'owner/name' format.
+ * @param issueNumber - The issue number.
+ * @param changes - The new body and the labels to add or remove.
+ * @returns A promise that resolves when the issue is updated.
+ */
+export async function editIssue(
+  repo: string,
+  issueNumber: number,
+  changes: { body?: string; addLabels?: string[]; removeLabels?: string[] }
+): Promise<void> {
+  const args = ['issue', 'edit', String(issueNumber), '--repo', repo];
+  if (changes.body !== undefined) {
+    args.push('--body', changes.body);
+  }
+  for (const label of changes.addLabels || []) {
+    args.push('--add-label', label);
+  }
+  for (const label of changes.removeLabels || []) {
+    args.push('--remove-label', label);
+  }
+  try {
+    await runGh(args);
+  } catch (error) {
+    console.error(`[GitHub Bridge] Failed to edit issue #${issueNumber}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Closes an issue, optionally leaving a comment.
+ * @param repo - The repo name in 'owner/name' format.
+ * @param issueNumber - The issue number.
+ * @param comment - An optional closing comment.
+ * @returns A promise that resolves when the issue is closed.
+ */
+export async function closeIssue(repo: string, issueNumber: number, comment?: string): Promise<void> {
+  const args = ['issue', 'close', String(issueNumber), '--repo', repo];
+  if (comment) {
+    args.push('--comment', comment);
+  }
+  try {
+    await runGh(args);
+  } catch (error) {
+    console.error(`[GitHub Bridge] Failed to close issue #${issueNumber}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,166 @@
+import type { IJulesTaskResult } from './jules.js';
+
+/**
+ * Structured view of Jules CLI output.
+ */
+export interface IJulesParsedOutput {
+  sessionId?: string;
+  state?: IJulesTaskResult['status'];
+  consoleLink?: string;
+  prLink?: string;
+  finalOutput?: string;
+  errors: string[];
+}
+
+const STATE_ALIASES: Record<string, IJulesTaskResult['status']> = {
+  'completed': 'completed',
+  'complete': 'completed',
+  'succeeded': 'completed',
+  'success': 'completed',
+  'done': 'completed',
+  'finished': 'completed',
+  'failed': 'failed',
+  'failure': 'failed',
+  'error': 'failed',
+  'errored': 'failed',
+  'cancelled': 'failed',
+  'canceled': 'failed',
+  'in progress': 'started',
+  'in_progress': 'started',
+  'running': 'started',
+  'started': 'started',
+  'active': 'started',
+  'pending': 'pending',
+  'queued': 'pending',
+  'waiting': 'pending'
+};
+
+const LINE_KEYS: Record<string, keyof Omit<IJulesParsedOutput, 'errors'>> = {
+  'session id': 'sessionId',
+  'session': 'sessionId',
+  'session started': 'sessionId',
+  'status': 'state',
+  'state': 'state',
+  'link': 'consoleLink',
+  'console': 'consoleLink',
+  'url': 'consoleLink',
+  'pr': 'prLink',
+  'pull request': 'prLink',
+  'output': 'finalOutput',
+  'result': 'finalOutput'
+};
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+const URL_PATTERN = /^https?:\/\/\S+$/;
+
+/**
+ * Parses output from the Jules CLI.
+ * JSON output is used when the CLI emits it; otherwise a strict `Key: value`
+ * line grammar applies. Lines that are not recognised keys are treated as log
+ * noise, and `Output:` consumes everything after it. Values that do not fit
+ * the grammar are reported in `errors` instead of being guessed at.
+ */
+export function parseJulesOutput(output: string): IJulesParsedOutput {
+  const trimmed = output.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      return parseJsonOutput(JSON.parse(trimmed));
+    } catch {
+      // Not JSON after all; fall through to the line grammar
+    }
+  }
+  return parseLineOutput(trimmed);
+}
+
+/**
+ * Maps a Jules state token to a task status, or undefined if unrecognised.
+ */
+export function parseJulesState(value: string): IJulesTaskResult['status'] | undefined {
+  return STATE_ALIASES[value.trim().toLowerCase().replace(/\.$/, '')];
+}
+
+/**
+ * Extracts fields from Jules JSON output.
+ */
+function parseJsonOutput(json: Record<string, any>): IJulesParsedOutput {
+  const result: IJulesParsedOutput = { errors: [] };
+  const pick = (...keys: string[]) => keys.map(key => json[key]).find(value => typeof value === 'string');
+
+  assignField(result, 'sessionId', pick('sessionId', 'session_id', 'id'));
+  assignField(result, 'state', pick('state', 'status'));
+  assignField(result, 'consoleLink', pick('consoleLink', 'console_link', 'url', 'link'));
+  assignField(result, 'prLink', pick('prLink', 'pr_url', 'pullRequest', 'pull_request'));
+
+  const finalOutput = pick('output', 'result', 'finalOutput', 'final_output');
+  if (finalOutput !== undefined) {
+    result.finalOutput = finalOutput.trim();
+  }
+
+  return result;
+}
+
+/**
+ * Extracts fields from the `Key: value` line grammar.
+ */
+function parseLineOutput(output: string): IJulesParsedOutput {
+  const result: IJulesParsedOutput = { errors: [] };
+  const lines = output.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^\s*([A-Za-z][A-Za-z _]*?)\s*:\s*(.*)$/);
+    if (!match) continue;
+
+    const field = LINE_KEYS[match[1].toLowerCase()];
+    if (!field) continue;
+
+    if (field === 'finalOutput') {
+      result.finalOutput = [match[2], ...lines.slice(i + 1)].join('\n').trim();
+      break;
+    }
+
+    assignField(result, field, match[2]);
+  }
+
+  return result;
+}
+
+/**
+ * Validates and stores a single scalar field, recording grammar violations.
+ */
+function assignField(
+  result: IJulesParsedOutput,
+  field: 'sessionId' | 'state' | 'consoleLink' | 'prLink',
+  rawValue: string | undefined
+): void {
+  if (rawValue === undefined) return;
+  const value = rawValue.trim();
+
+  switch (field) {
+    case 'sessionId':
+      if (SESSION_ID_PATTERN.test(value)) {
+        result.sessionId = value;
+      } else {
+        result.errors.push(`Invalid session ID "${value}".`);
+      }
+      break;
+
+    case 'state': {
+      const state = parseJulesState(value);
+      if (state) {
+        result.state = state;
+      } else {
+        result.errors.push(`Unrecognized state "${value}".`);
+      }
+      break;
+    }
+
+    case 'consoleLink':
+    case 'prLink':
+      if (URL_PATTERN.test(value)) {
+        result[field] = value;
+      } else {
+        result.errors.push(`Invalid ${field === 'prLink' ? 'PR' : 'console'} link "${value}".`);
+      }
+      break;
+  }
+}
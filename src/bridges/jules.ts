@@ -1,8 +1,6 @@
-import { execFile } from 'child_process';
-import { promisify } from 'util';
 import { IMakerTask } from '../types/maker.js';
-
-const execFileAsync = promisify(execFile);
+import { parseJulesOutput } from './jules-parser.js';
+import { runBridgeCommand } from './command.js';
 
 /**
  * Interface for the result of a Jules task.
@@ -11,8 +9,10 @@ export interface IJulesTaskResult {
   sessionId: string;
   status: 'started' | 'completed' | 'failed' | 'pending';
   consoleLink?: string;
+  prLink?: string;
   output?: string;
   error?: string;
+  parseError?: string;
 }
 
 /**
@@ -46,21 +46,30 @@ export async function runJulesTask(options: IJulesTaskOptions): Promise<IJulesTa
       args.push('--wait');
     }
     
-    const { stdout: output } = await execFileAsync('jules', args);
-    
-    // Parse output to find console link and session ID.
-    // Output often includes: "Session started: <id>" and "Link: <url>"
-    const sessionIdMatch = output.match(/Session\s+ID:\s+([a-zA-Z0-9-]+)/i);
-    const linkMatch = output.match(/Link:\s+(https:\/\/[^\s]+)/i);
+    const { stdout: output } = await runBridgeCommand('jules', args);
+    const parsed = parseJulesOutput(output);
+    const parseError = parsed.errors.length > 0 ? parsed.errors.join(' ') : undefined;
 
-    const sessionId = sessionIdMatch ? sessionIdMatch[1] : 'unknown';
-    const consoleLink = linkMatch ? linkMatch[1] : undefined;
+    // Without a session ID the session cannot be polled or cancelled.
+    if (!parsed.sessionId) {
+      const error = `Could not find a session ID in Jules output.${parseError ? ` ${parseError}` : ''}`;
+      console.error(`[Jules Bridge] ${error}`);
+      return {
+        sessionId: 'unknown',
+        status: 'failed',
+        error,
+        parseError: error,
+        output: output.trim()
+      };
+    }
 
     return {
-      sessionId,
-      status: wait ? 'completed' : 'started',
-      consoleLink,
-      output: output.trim()
+      sessionId: parsed.sessionId,
+      status: parsed.state || (wait ? 'completed' : 'started'),
+      consoleLink: parsed.consoleLink,
+      prLink: parsed.prLink,
+      output: parsed.finalOutput ?? output.trim(),
+      parseError
     };
   } catch (error: any) {
     console.error('[Jules Bridge] Error triggering Jules task:', error.message);
@@ -82,18 +91,25 @@ export async function runJulesTask(options: IJulesTaskOptions): Promise<IJulesTa
 export async function getJulesTaskStatus(sessionId: string): Promise<IJulesTaskResult> {
   console.log(`[Jules Bridge] Checking status for Jules session: ${sessionId}...`);
   try {
-    const { stdout: output } = await execFileAsync('jules', ['status', '--id', sessionId]);
-    
-    // Simplified status parsing.
-    let status: IJulesTaskResult['status'] = 'pending';
-    if (output.toLowerCase().includes('completed')) status = 'completed';
-    if (output.toLowerCase().includes('failed')) status = 'failed';
-    if (output.toLowerCase().includes('in progress')) status = 'started';
+    const { stdout: output } = await runBridgeCommand('jules', ['status', '--id', sessionId]);
+    const parsed = parseJulesOutput(output);
+    const parseErrors = [...parsed.errors];
+
+    if (!parsed.state) {
+      parseErrors.push('No state found in Jules status output.');
+    }
+    if (parsed.sessionId && parsed.sessionId !== sessionId) {
+      parseErrors.push(`Status output refers to session ${parsed.sessionId}.`);
+    }
 
     return {
       sessionId,
-      status,
-      output: output.trim()
+      status: parsed.state || 'pending',
+      consoleLink: parsed.consoleLink,
+      prLink: parsed.prLink,
+      output: parsed.finalOutput ?? output.trim(),
+      error: parsed.state === 'failed' ? parsed.finalOutput || 'Jules reported the session as failed.' : undefined,
+      parseError: parseErrors.length > 0 ? parseErrors.join(' ') : undefined
     };
   } catch (error: any) {
     console.error(`[Jules Bridge] Error checking Jules task status for session ${sessionId}:`, error.message);
@@ -105,6 +121,23 @@ export async function getJulesTaskStatus(sessionId: string): Promise<IJulesTaskR
   }
 }
 
+/**
+ * Cancels a running Jules task.
+ * 
+ * @param sessionId - The unique identifier for the Jules session.
+ * @returns A promise that resolves to true if the session was cancelled.
+ */
+export async function cancelJulesTask(sessionId: string): Promise<boolean> {
+  console.log(`[Jules Bridge] Cancelling Jules session: ${sessionId}...`);
+  try {
+    await runBridgeCommand('jules', ['cancel', '--id', sessionId]);
+    return true;
+  } catch (error: any) {
+    console.error(`[Jules Bridge] Error cancelling Jules session ${sessionId}:`, error.message);
+    return false;
+  }
+}
+
 /**
  * Converts an IMakerTask into a Jules task and runs it.
  * This allows the MAKER framework to delegate tasks to Jules.
@@ -0,0 +1,113 @@
+import { IExecutorResult, IExecutorTaskOptions, IMakerExecutor } from '../types/maker.js';
+
+/**
+ * Options for the HTTP chat-completions executor.
+ */
+export interface IHttpExecutorOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Default endpoint: Gemini's OpenAI-compatible API.
+ */
+export const DEFAULT_HTTP_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/openai';
+
+/**
+ * Executor that draws samples from an OpenAI-compatible chat-completions endpoint.
+ * Suitable for short minimal tasks that do not need a remote coding agent.
+ */
+export class HttpExecutor implements IMakerExecutor {
+  public readonly name = 'http';
+  private options: IHttpExecutorOptions;
+  private sessions = new Map<string, IExecutorResult>();
+  private pending = new Map<string, AbortController>();
+  private sessionCounter = 0;
+
+  constructor(options: IHttpExecutorOptions) {
+    this.options = { ...options, baseUrl: options.baseUrl.replace(/\/+$/, '') };
+  }
+
+  /**
+   * Sends the prompt as a chat completion request.
+   * Without `wait`, the request runs in the background and is observed via `getStatus`.
+   */
+  public async start(options: IExecutorTaskOptions): Promise<IExecutorResult> {
+    const sessionId = `http-${++this.sessionCounter}`;
+    const controller = new AbortController();
+    this.pending.set(sessionId, controller);
+    this.sessions.set(sessionId, { sessionId, status: 'started' });
+
+    const request = this.complete(sessionId, options, controller.signal);
+    if (options.wait) {
+      return request;
+    }
+
+    return { sessionId, status: 'started' };
+  }
+
+  /**
+   * Returns the state of a chat completion request.
+   */
+  public async getStatus(sessionId: string): Promise<IExecutorResult> {
+    return this.sessions.get(sessionId) || { sessionId, status: 'failed', error: `Unknown session: ${sessionId}` };
+  }
+
+  /**
+   * Aborts an in-flight chat completion request.
+   */
+  public async cancel(sessionId: string): Promise<void> {
+    this.pending.get(sessionId)?.abort();
+  }
+
+  /**
+   * Returns the completion text of a finished request.
+   */
+  public async fetchOutput(sessionId: string): Promise<string | undefined> {
+    return this.sessions.get(sessionId)?.output;
+  }
+
+  /**
+   * Performs the HTTP request and records its outcome. Never rejects.
+   */
+  private async complete(sessionId: string, options: IExecutorTaskOptions, signal: AbortSignal): Promise<IExecutorResult> {
+    let result: IExecutorResult;
+    try {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (this.options.apiKey) {
+        headers.Authorization = `Bearer ${this.options.apiKey}`;
+      }
+
+      const response = await fetch(`${this.options.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.options.model,
+          messages: [{ role: 'user', content: options.prompt }],
+          temperature: options.temperature
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+      }
+
+      const body = await response.json();
+      const content = body?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('Response did not contain choices[0].message.content');
+      }
+
+      result = { sessionId, status: 'completed', output: content };
+    } catch (error: any) {
+      console.error(`[HttpExecutor] Request ${sessionId} failed:`, error.message);
+      result = { sessionId, status: 'failed', error: error.message };
+    }
+
+    this.pending.delete(sessionId);
+    this.sessions.set(sessionId, result);
+    return result;
+  }
+}
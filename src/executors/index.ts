@@ -0,0 +1,80 @@
+import { IExecutorConfig, IMakerExecutor, IRepoProvider, MakerConfig } from '../types/maker.js';
+import { JulesExecutor } from './jules.js';
+import { ScriptedExecutor } from './scripted.js';
+import { HttpExecutor, DEFAULT_HTTP_BASE_URL } from './http.js';
+import { WorktreeExecutor } from './worktree.js';
+
+export { JulesExecutor } from './jules.js';
+export { ScriptedExecutor } from './scripted.js';
+export { HttpExecutor } from './http.js';
+export { WorktreeExecutor } from './worktree.js';
+
+/**
+ * Creates the executor selected by the MAKER configuration.
+ * Falls back to the Jules executor when no executor is configured.
+ *
+ * @param config - Configuration for the MAKER framework.
+ * @param repoProvider - Repo provider used by executors that need a local clone.
+ */
+export function createExecutor(config: MakerConfig, repoProvider?: IRepoProvider): IMakerExecutor {
+  const executorConfig = config.executor;
+
+  switch (executorConfig?.type ?? 'jules') {
+    case 'jules':
+      return new JulesExecutor();
+
+    case 'scripted':
+      if (!executorConfig?.fixturePath) {
+        throw new Error('The scripted executor requires "fixturePath" to be set.');
+      }
+      return new ScriptedExecutor(executorConfig.fixturePath);
+
+    case 'http':
+      return new HttpExecutor({
+        baseUrl: executorConfig?.baseUrl || DEFAULT_HTTP_BASE_URL,
+        model: config.modelName,
+        apiKey: process.env[executorConfig?.apiKeyEnv || 'GEMINI_API_KEY']
+      });
+
+    case 'worktree':
+      if (!executorConfig?.repoPath || !executorConfig.agentCommand) {
+        throw new Error('The worktree executor requires "repoPath" and "agentCommand" to be set.');
+      }
+      return new WorktreeExecutor({
+        repoPath: executorConfig.repoPath,
+        agentCommand: executorConfig.agentCommand,
+        worktreeRoot: executorConfig.worktreeRoot
+      }, repoProvider);
+
+    default:
+      throw new Error(`Unknown executor type: ${executorConfig?.type}`);
+  }
+}
+
+/**
+ * The settings of the executor that `createTextExecutor` chooses: none when
+ * Jules answers the text phases by default.
+ */
+export function textExecutorConfig(config: MakerConfig): IExecutorConfig | undefined {
+  return config.textExecutor ?? (config.executor?.type === 'worktree' ? undefined : config.executor);
+}
+
+/**
+ * Chooses the executor for the phases that need a text answer: decomposition,
+ * composition and LLM acceptance checks. Uses `config.textExecutor` if set and
+ * otherwise reuses the sample executor, except for the worktree executor, whose
+ * samples are diffs; Jules answers the text phases then.
+ *
+ * @param config - Configuration for the MAKER framework.
+ * @param sampleExecutor - The executor that draws the samples of minimal tasks.
+ * @param repoProvider - Repo provider used by executors that need a local clone.
+ */
+export function createTextExecutor(config: MakerConfig, sampleExecutor: IMakerExecutor, repoProvider?: IRepoProvider): IMakerExecutor {
+  if (config.textExecutor) {
+    if (config.textExecutor.type === 'worktree') {
+      throw new Error('The worktree executor returns diffs and cannot be the text executor.');
+    }
+    return createExecutor({ ...config, executor: config.textExecutor }, repoProvider);
+  }
+  return sampleExecutor instanceof WorktreeExecutor ? new JulesExecutor() : sampleExecutor;
+}
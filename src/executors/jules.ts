@@ -0,0 +1,43 @@
+import { IExecutorResult, IExecutorTaskOptions, IMakerExecutor } from '../types/maker.js';
+import { runJulesTask, getJulesTaskStatus, cancelJulesTask } from '../bridges/jules.js';
+
+/**
+ * Executor backed by the Jules CLI.
+ * Each sample or decomposition request becomes its own Jules session.
+ */
+export class JulesExecutor implements IMakerExecutor {
+  public readonly name = 'jules';
+
+  /**
+   * Starts a Jules session, optionally waiting for it to finish.
+   */
+  public async start(options: IExecutorTaskOptions): Promise<IExecutorResult> {
+    return runJulesTask({
+      repoName: options.repoName,
+      description: options.prompt,
+      wait: options.wait
+    });
+  }
+
+  /**
+   * Retrieves the current status of a Jules session.
+   */
+  public async getStatus(sessionId: string): Promise<IExecutorResult> {
+    return getJulesTaskStatus(sessionId);
+  }
+
+  /**
+   * Cancels a running Jules session.
+   */
+  public async cancel(sessionId: string): Promise<void> {
+    await cancelJulesTask(sessionId);
+  }
+
+  /**
+   * Fetches the output of a Jules session, if it has produced any.
+   */
+  public async fetchOutput(sessionId: string): Promise<string | undefined> {
+    const status = await getJulesTaskStatus(sessionId);
+    return status.output;
+  }
+}
@@ -0,0 +1,141 @@
+import * as fs from 'fs/promises';
+import { ExecutorStatus, IExecutorResult, IExecutorTaskOptions, IMakerExecutor } from '../types/maker.js';
+
+/**
+ * A single canned response. Plain strings are treated as completed outputs.
+ */
+export type ScriptedResponse = string | {
+  status?: ExecutorStatus;
+  output?: string;
+  error?: string;
+};
+
+/**
+ * A rule mapping prompts to canned responses.
+ * Rules without `match` apply to any prompt not claimed by an earlier rule.
+ */
+export interface IScriptedRule {
+  match?: string;
+  responses: ScriptedResponse[];
+}
+
+/**
+ * Shape of a scripted executor fixture file.
+ */
+export interface IScriptedFixture {
+  rules: IScriptedRule[];
+}
+
+/**
+ * Deterministic, in-process executor that serves canned responses from a fixture.
+ * Responses for each rule are handed out in order and cycle once exhausted,
+ * so whole MAKER runs can be executed offline and reproduced exactly.
+ */
+export class ScriptedExecutor implements IMakerExecutor {
+  public readonly name = 'scripted';
+  private fixture: IScriptedFixture | null;
+  private fixturePath?: string;
+  private cursors = new Map<IScriptedRule, number>();
+  private sessions = new Map<string, IExecutorResult>();
+  private sessionCounter = 0;
+
+  constructor(source: string | IScriptedFixture) {
+    if (typeof source === 'string') {
+      this.fixturePath = source;
+      this.fixture = null;
+    } else {
+      this.fixture = source;
+    }
+  }
+
+  /**
+   * Resolves the next canned response for the prompt.
+   * Sessions complete immediately; `wait` makes no difference.
+   */
+  public async start(options: IExecutorTaskOptions): Promise<IExecutorResult> {
+    const fixture = await this.loadFixture();
+    const sessionId = `scripted-${++this.sessionCounter}`;
+    const rule = this.findRule(fixture, options.prompt);
+
+    let result: IExecutorResult;
+    if (!rule || rule.responses.length === 0) {
+      result = { sessionId, status: 'failed', error: 'No scripted response matches the prompt.' };
+    } else {
+      const cursor = this.cursors.get(rule) || 0;
+      this.cursors.set(rule, cursor + 1);
+      result = this.toResult(sessionId, rule.responses[cursor % rule.responses.length]);
+    }
+
+    this.sessions.set(sessionId, result);
+    return result;
+  }
+
+  /**
+   * Returns the recorded result for a scripted session.
+   */
+  public async getStatus(sessionId: string): Promise<IExecutorResult> {
+    return this.sessions.get(sessionId) || { sessionId, status: 'failed', error: `Unknown session: ${sessionId}` };
+  }
+
+  /**
+   * Marks a scripted session as failed.
+   */
+  public async cancel(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session && session.status !== 'completed') {
+      this.sessions.set(sessionId, { ...session, status: 'failed', error: 'Cancelled' });
+    }
+  }
+
+  /**
+   * Returns the output of a scripted session.
+   */
+  public async fetchOutput(sessionId: string): Promise<string | undefined> {
+    return this.sessions.get(sessionId)?.output;
+  }
+
+  /**
+   * Loads and validates the fixture file on first use.
+   */
+  private async loadFixture(): Promise<IScriptedFixture> {
+    if (this.fixture) {
+      return this.fixture;
+    }
+
+    try {
+      const data = await fs.readFile(this.fixturePath!, 'utf-8');
+      const parsed = JSON.parse(data) as IScriptedFixture;
+      if (!Array.isArray(parsed.rules)) {
+        throw new Error('Fixture must contain a "rules" array');
+      }
+      this.fixture = parsed;
+      return parsed;
+    } catch (error: any) {
+      throw new Error(`Failed to load scripted fixture from ${this.fixturePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Finds the first rule matching the prompt, falling back to the first catch-all rule.
+   */
+  private findRule(fixture: IScriptedFixture, prompt: string): IScriptedRule | undefined {
+    const lowerPrompt = prompt.toLowerCase();
+    return fixture.rules.find(rule => rule.match && lowerPrompt.includes(rule.match.toLowerCase()))
+      || fixture.rules.find(rule => !rule.match);
+  }
+
+  /**
+   * Converts a canned response into an executor result.
+   */
+  private toResult(sessionId: string, response: ScriptedResponse): IExecutorResult {
+    if (typeof response === 'string') {
+      return { sessionId, status: 'completed', output: response };
+    }
+    return {
+      sessionId,
+      status: response.status || 'completed',
+      output: response.output,
+      error: response.error
+    };
+  }
+}
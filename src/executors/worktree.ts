@@ -0,0 +1,214 @@
+import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { IExecutorResult, IExecutorTaskOptions, IMakerExecutor, IRepoProvider } from '../types/maker.js';
+import { GitHubRepoProvider } from '../providers/github.js';
+import { runBridgeCommand } from '../bridges/command.js';
+
+/**
+ * Runs git through the bridge command runner, so that cassettes see it.
+ */
+function runGit(args: string[]) {
+  return runBridgeCommand('git', args);
+}
+
+/**
+ * Options for the local git-worktree executor.
+ */
+export interface IWorktreeExecutorOptions {
+  repoPath: string;
+  agentCommand: string;
+  worktreeRoot?: string;
+}
+
+/**
+ * Executor that runs each sample in its own `git worktree` of a local clone.
+ * The configured agent command is invoked inside the worktree with the prompt
+ * on stdin (and in `MAKER_PROMPT`); the diff from the worktree's starting
+ * commit to everything it committed or left behind becomes the candidate content. Works without network access once the repo is cloned.
+ */
+export class WorktreeExecutor implements IMakerExecutor {
+  public readonly name = 'worktree';
+  private options: IWorktreeExecutorOptions;
+  private repoProvider: IRepoProvider;
+  private sessions = new Map<string, IExecutorResult>();
+  private processes = new Map<string, ChildProcess>();
+  private gitQueue: Promise<unknown> = Promise.resolve();
+  private sessionCounter = 0;
+
+  constructor(options: IWorktreeExecutorOptions, repoProvider: IRepoProvider = new GitHubRepoProvider()) {
+    this.options = options;
+    this.repoProvider = repoProvider;
+  }
+
+  /**
+   * Creates a worktree and runs the agent command in it.
+   * Without `wait`, the agent runs in the background and is observed via `getStatus`.
+   */
+  public async start(options: IExecutorTaskOptions): Promise<IExecutorResult> {
+    const sessionId = `worktree-${process.pid}-${++this.sessionCounter}`;
+    this.sessions.set(sessionId, { sessionId, status: 'started' });
+
+    const run = this.runSample(sessionId, options);
+    if (options.wait) {
+      return run;
+    }
+
+    return { sessionId, status: 'started' };
+  }
+
+  /**
+   * Returns the state of a worktree sample.
+   */
+  public async getStatus(sessionId: string): Promise<IExecutorResult> {
+    return this.sessions.get(sessionId) || { sessionId, status: 'failed', error: `Unknown session: ${sessionId}` };
+  }
+
+  /**
+   * Stops the agent command of a running sample, including any processes it started.
+   */
+  public async cancel(sessionId: string): Promise<void> {
+    const child = this.processes.get(sessionId);
+    if (!child?.pid) return;
+    try {
+      process.kill(-child.pid, 'SIGTERM');
+    } catch {
+      // The agent command already exited
+    }
+  }
+
+  /**
+   * Returns the diff produced by a finished sample.
+   */
+  public async fetchOutput(sessionId: string): Promise<string | undefined> {
+    return this.sessions.get(sessionId)?.output;
+  }
+
+  /**
+   * Runs one sample end to end and records its outcome. Never rejects.
+   */
+  private async runSample(sessionId: string, options: IExecutorTaskOptions): Promise<IExecutorResult> {
+    const worktreeRoot = this.options.worktreeRoot || os.tmpdir();
+    const worktreePath = path.join(worktreeRoot, sessionId);
+    const branchName = `maker/${sessionId}`;
+    let result: IExecutorResult;
+
+    try {
+      await this.serialized(() => this.ensureRepo(options.repoName));
+      await this.serialized(() => this.addWorktree(worktreePath, branchName));
+
+      // The agent may commit its work, so diff against where it started.
+      const { stdout: base } = await runGit(['-C', worktreePath, 'rev-parse', 'HEAD']);
+      await this.runAgent(sessionId, worktreePath, options);
+
+      await runGit(['-C', worktreePath, 'add', '-A']);
+      const { stdout: diff } = await runGit(['-C', worktreePath, 'diff', '--cached', base.trim()]);
+
+      if (!diff.trim()) {
+        throw new Error('Agent command produced no changes.');
+      }
+
+      result = { sessionId, status: 'completed', output: `\`\`\`diff\n${diff.trimEnd()}\n\`\`\`` };
+    } catch (error: any) {
+      console.error(`[WorktreeExecutor] Sample ${sessionId} failed:`, error.message);
+      result = { sessionId, status: 'failed', error: error.message };
+    } finally {
+      await this.serialized(() => this.removeWorktree(worktreePath, branchName));
+    }
+
+    this.sessions.set(sessionId, result);
+    return result;
+  }
+
+  /**
+   * Clones the repository into `repoPath` unless a clone is already present.
+   */
+  private async ensureRepo(repoName: string): Promise<void> {
+    try {
+      await fs.access(path.join(this.options.repoPath, '.git'));
+    } catch {
+      const cloned = await this.repoProvider.cloneRepo(repoName, this.options.repoPath);
+      if (!cloned) {
+        throw new Error(`No local clone at ${this.options.repoPath} and cloning ${repoName} failed.`);
+      }
+    }
+  }
+
+  /**
+   * Adds a detached worktree and puts it on a fresh sample branch.
+   */
+  private async addWorktree(worktreePath: string, branchName: string): Promise<void> {
+    await runGit(['-C', this.options.repoPath, 'worktree', 'add', '--detach', worktreePath]);
+    const created = await this.repoProvider.createBranch(worktreePath, branchName, 'HEAD');
+    if (!created) {
+      throw new Error(`Failed to create branch ${branchName} in worktree.`);
+    }
+  }
+
+  /**
+   * Removes the worktree and its sample branch, ignoring missing ones.
+   */
+  private async removeWorktree(worktreePath: string, branchName: string): Promise<void> {
+    try {
+      await runGit(['-C', this.options.repoPath, 'worktree', 'remove', '--force', worktreePath]);
+    } catch {
+      // The worktree may never have been created
+    }
+    try {
+      await runGit(['-C', this.options.repoPath, 'branch', '-D', branchName]);
+    } catch {
+      // The branch may never have been created
+    }
+  }
+
+  /**
+   * Runs the agent command inside the worktree, feeding it the prompt. The
+   * command gets its own process group so that `cancel` also stops its children.
+   */
+  private runAgent(sessionId: string, cwd: string, options: IExecutorTaskOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.options.agentCommand, {
+        cwd,
+        shell: true,
+        detached: true,
+        stdio: ['pipe', 'ignore', 'pipe'],
+        env: {
+          ...process.env,
+          MAKER_PROMPT: options.prompt,
+          MAKER_TEMPERATURE: options.temperature !== undefined ? String(options.temperature) : ''
+        }
+      });
+      this.processes.set(sessionId, child);
+
+      let stderr = '';
+      child.stderr?.on('data', chunk => (stderr += chunk));
+      child.stdin?.on('error', () => {
+        // The agent may exit without reading the prompt
+      });
+      child.stdin?.end(options.prompt);
+
+      child.on('error', error => {
+        this.processes.delete(sessionId);
+        reject(error);
+      });
+      child.on('close', (code, signal) => {
+        this.processes.delete(sessionId);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`Agent command exited with ${signal || `code ${code}`}: ${stderr.trim()}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Runs git operations that touch the shared repository one at a time.
+   */
+  private serialized<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.gitQueue.then(operation);
+    this.gitQueue = next.catch(() => undefined);
+    return next;
+  }
+}
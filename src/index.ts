@@ -1,32 +1,18 @@
 #!/usr/bin/env node
+import * as fs from 'fs/promises';
 import { MakerOrchestrator } from './orchestrator.js';
-import { MakerConfig } from './types/maker.js';
+import { MakerConfig, ExecutorType, RepoProviderType, ContextTruncation, CompositionMode, RecoveryStrategy } from './types/maker.js';
+import { searchRepositories } from './bridges/github.js';
+import { MakerMcpServer } from './mcp/server.js';
+import { renderPlan, planFormatFor, loadPlanFile } from './utils/plan.js';
+import { parseArgs } from './utils/args.js';
 
 /**
  * Entry point for the MAKER Gemini CLI extension.
  * Handles command-line arguments and triggers the orchestrator.
  */
 async function main() {
-  const args = process.argv.slice(2);
-  
-  // Simple argument parsing
-  const params: Record<string, string> = {};
-  const positionalArgs: string[] = [];
-
-  for (let i = 0; i < args.length; i++) {
-    if (args[i].startsWith('--')) {
-      const key = args[i].substring(2);
-      const value = args[i + 1];
-      if (value && !value.startsWith('--')) {
-        params[key] = value;
-        i++;
-      } else {
-        params[key] = 'true';
-      }
-    } else {
-      positionalArgs.push(args[i]);
-    }
-  }
+  const { params, positionalArgs } = parseArgs(process.argv.slice(2));
 
   const command = positionalArgs[0];
   const orchestrator = new MakerOrchestrator();
@@ -39,10 +25,145 @@ async function main() {
     modelName: 'gemini-1.5-pro'
   };
 
+  if (params.k) {
+    defaultConfig.votingThreshold = params.k === 'auto' ? 'auto' : Number(params.k);
+  }
+
+  if (params['target-reliability']) {
+    defaultConfig.reliability = { target: Number(params['target-reliability']) };
+  }
+
+  if (params['batch-size'] || params['max-rounds'] || params['poll-interval'] || params['adaptive-sampling']) {
+    defaultConfig.sampling = {
+      mode: params['adaptive-sampling'] === 'true' ? 'adaptive' : undefined,
+      batchSize: params['batch-size'] ? Number(params['batch-size']) : undefined,
+      maxRounds: params['max-rounds'] ? Number(params['max-rounds']) : undefined,
+      pollIntervalSeconds: params['poll-interval'] ? Number(params['poll-interval']) : undefined
+    };
+  }
+
+  if (params.executor) {
+    defaultConfig.executor = {
+      type: params.executor as ExecutorType,
+      fixturePath: params.fixture,
+      baseUrl: params['base-url'],
+      repoPath: params['repo-path'],
+      agentCommand: params['agent-command']
+    };
+  }
+
+  if (params['text-executor']) {
+    defaultConfig.textExecutor = {
+      type: params['text-executor'] as ExecutorType,
+      fixturePath: params.fixture,
+      baseUrl: params['base-url']
+    };
+  }
+
+  if (params['repo-provider']) {
+    defaultConfig.repoProvider = {
+      type: params['repo-provider'] as RepoProviderType,
+      rootPath: params['repo-root']
+    };
+  }
+
+  if (params['reuse-repo']) {
+    defaultConfig.repoSelection = {
+      mode: 'search',
+      query: params['reuse-repo'] === 'true' ? undefined : params['reuse-repo']
+    };
+  }
+
+  if (params.record || params.replay) {
+    defaultConfig.cassette = params.record
+      ? { mode: 'record', path: params.record }
+      : { mode: 'replay', path: params.replay };
+  }
+
+  if (params['sync-issues']) {
+    defaultConfig.issueSync = {
+      enabled: true,
+      repo: params['sync-issues'] === 'true' ? undefined : params['sync-issues']
+    };
+  }
+
+  if (params['max-concurrency']) {
+    defaultConfig.maxConcurrency = Number(params['max-concurrency']);
+  }
+
+  if (params['max-sessions']) {
+    defaultConfig.maxInFlightSessions = Number(params['max-sessions']);
+  }
+
+  if (params['context-chars'] || params['context-truncation']) {
+    defaultConfig.context = {
+      maxChars: params['context-chars'] ? Number(params['context-chars']) : undefined,
+      truncation: params['context-truncation'] as ContextTruncation | undefined
+    };
+  }
+
+  if (params.composition) {
+    defaultConfig.composition = { mode: params.composition as CompositionMode };
+  }
+
+  if (params.recovery) {
+    defaultConfig.recovery = {
+      strategies: params.recovery.split(',').map(strategy => strategy.trim() as RecoveryStrategy),
+      maxAttempts: params['max-recovery-attempts'] ? Number(params['max-recovery-attempts']) : undefined
+    };
+  }
+
+  if (params['budget-sessions'] || params['budget-tokens'] || params['budget-seconds']) {
+    defaultConfig.budget = {
+      maxSessions: params['budget-sessions'] ? Number(params['budget-sessions']) : undefined,
+      maxTokens: params['budget-tokens'] ? Number(params['budget-tokens']) : undefined,
+      maxWallClockSeconds: params['budget-seconds'] ? Number(params['budget-seconds']) : undefined
+    };
+  }
+
+  if (params.verify || params['verify-llm']) {
+    defaultConfig.verification = {
+      commands: params.verify ? [params.verify] : undefined,
+      repoPath: params['verify-repo'],
+      llm: params['verify-llm'] === 'true'
+    };
+  }
+
+  const timeoutFlags = ['decomposition-timeout', 'sample-timeout', 'round-timeout', 'aggregation-timeout', 'deadline'];
+  if (timeoutFlags.some(flag => params[flag])) {
+    const seconds = (flag: string) => params[flag] ? Number(params[flag]) : undefined;
+    defaultConfig.timeouts = {
+      decompositionSeconds: seconds('decomposition-timeout'),
+      sampleSeconds: seconds('sample-timeout'),
+      votingRoundSeconds: seconds('round-timeout'),
+      aggregationSeconds: seconds('aggregation-timeout'),
+      runSeconds: seconds('deadline')
+    };
+  }
+
+  if (params.canonicalize || params.similarity) {
+    defaultConfig.canonicalization = {
+      canonicalizers: params.canonicalize ? params.canonicalize.split(',').map(name => name.trim()) : undefined,
+      similarityThreshold: params.similarity ? Number(params.similarity) : undefined
+    };
+  }
+
+  if (params.plugins) {
+    defaultConfig.plugins = params.plugins.split(',').map(module => ({ module: module.trim() }));
+  }
+
+  if (params['deliver-to']) {
+    defaultConfig.delivery = {
+      mode: 'pull-request',
+      localPath: params['deliver-to'],
+      baseBranch: params['base-branch']
+    };
+  }
+
   try {
     // Support for --task parameter from gemini-extension.json
     if (params.task) {
-      await orchestrator.runMaker(params.task, defaultConfig);
+      await orchestrator.runMaker(params.task, defaultConfig, { signal: createShutdownSignal() });
       return;
     }
 
@@ -54,13 +175,66 @@ async function main() {
           showHelp();
           process.exit(1);
         }
-        await orchestrator.runMaker(idea, defaultConfig);
+        await orchestrator.runMaker(idea, defaultConfig, { signal: createShutdownSignal() });
+        break;
+      }
+
+      case 'plan': {
+        const idea = positionalArgs.slice(1).join(' ');
+        if (!idea) {
+          console.error('Error: Please provide an idea to plan.');
+          showHelp();
+          process.exit(1);
+        }
+        const outlinePath = params.outline || 'maker-plan.md';
+        const format = planFormatFor(outlinePath);
+        const root = await orchestrator.planMaker(idea, defaultConfig, { signal: createShutdownSignal() });
+        const outline = renderPlan(root, format);
+        await fs.writeFile(outlinePath, outline, 'utf-8');
+        console.log(outline);
+        console.log(`Plan saved to maker-state.json and ${outlinePath}. Run 'maker resume' or 'maker execute ${outlinePath}' to execute it.`);
+        break;
+      }
+
+      case 'execute': {
+        const planFile = positionalArgs[1];
+        if (!planFile) {
+          console.error('Error: Please provide a plan file (.yaml, .yml or .md) to execute.');
+          showHelp();
+          process.exit(1);
+        }
+        const root = await loadPlanFile(planFile);
+        await orchestrator.executePlan(root, defaultConfig, { signal: createShutdownSignal() });
         break;
       }
 
       case 'resume': {
         const stateFile = positionalArgs[1];
-        await orchestrator.resumeMaker(stateFile);
+        await orchestrator.resumeMaker(stateFile, { signal: createShutdownSignal() });
+        break;
+      }
+
+      case 'serve': {
+        // stdout carries the MCP protocol; route logging to stderr.
+        console.log = console.error;
+        console.warn = console.error;
+        await new MakerMcpServer(defaultConfig).serve();
+        break;
+      }
+
+      case 'github:search-repositories': {
+        const query = params.query || positionalArgs.slice(1).join(' ');
+        if (!query) {
+          console.error('Error: Please provide a search query with --query.');
+          process.exit(1);
+        }
+        const limit = params.limit ? Number(params.limit) : 10;
+        if (!Number.isInteger(limit) || limit <= 0) {
+          console.error('Error: --limit must be a positive integer.');
+          process.exit(1);
+        }
+        const results = await searchRepositories(query, limit);
+        console.log(JSON.stringify(results, null, 2));
         break;
       }
 
@@ -72,7 +246,7 @@ async function main() {
         if (command) {
           // If a command is provided but not recognized, treat it as the idea for 'run'
           const idea = positionalArgs.join(' ');
-          await orchestrator.runMaker(idea, defaultConfig);
+          await orchestrator.runMaker(idea, defaultConfig, { signal: createShutdownSignal() });
         } else {
           showHelp();
         }
@@ -84,6 +258,24 @@ async function main() {
   }
 }
 
+/**
+ * Aborts the returned signal on the first SIGINT or SIGTERM so that the run
+ * cancels its sessions and saves resumable state. A second signal exits at once.
+ */
+function createShutdownSignal(): AbortSignal {
+  const controller = new AbortController();
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (controller.signal.aborted) {
+      process.exit(130);
+    }
+    console.warn(`Received ${signal}. Cancelling outstanding sessions and saving state (repeat to quit immediately)...`);
+    controller.abort();
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+  return controller.signal;
+}
+
 /**
  * Displays help information for the MAKER CLI.
  */
@@ -91,9 +283,57 @@ function showHelp() {
   console.log('MAKER Gemini CLI Extension');
   console.log('Usage:');
   console.log('  maker run <idea>    - Start a new MAKER process for the given idea');
+  console.log('  maker plan <idea>   - Decompose the idea into a full plan without executing it');
+  console.log('  maker execute <plan> - Execute a plan file written by maker plan (YAML or Markdown)');
   console.log('  maker resume [file] - Resume a previously saved MAKER process');
   console.log('  maker --task <idea> - Start a new MAKER process (Gemini CLI style)');
+  console.log('  maker github:search-repositories --query <q> [--limit <n>]');
+  console.log('                      - Search GitHub repositories (JSON output)');
+  console.log('  maker serve         - Serve maker_decompose, maker_vote and maker_redflag over MCP stdio');
   console.log('  maker help          - Show this help message');
+  console.log('Options:');
+  console.log('  --executor <type>   - Executor backend: jules (default), scripted, http or worktree');
+  console.log('  --fixture <file>    - Canned responses for the scripted executor');
+  console.log('  --base-url <url>    - Chat-completions endpoint for the http executor');
+  console.log('  --repo-path <dir>   - Local clone used by the worktree executor');
+  console.log('  --agent-command <c> - Local agent command run in each worktree');
+  console.log('  --text-executor <t> - Executor for decomposition, composition and LLM checks (default: --executor, or jules for worktree)');
+  console.log('  --repo-provider <p> - Repository provider: github (default) or local');
+  console.log('  --repo-root <dir>   - Directory holding bare repositories for the local provider');
+  console.log('  --deliver-to <dir>  - Open a pull request per completed leaf from this clone');
+  console.log('  --base-branch <b>   - Base branch for delivered pull requests (default main)');
+  console.log('  --sync-issues [repo] - Mirror the task tree as GitHub issues');
+  console.log('  --record <file>     - Record all Jules and GitHub bridge calls to a cassette');
+  console.log('  --replay <file>     - Serve Jules and GitHub bridge calls from a cassette');
+  console.log('  --reuse-repo [query] - Use an existing repository matching the query (default: the idea)');
+  console.log('  --max-concurrency <n> - Process up to n sibling subtasks at once (default 1)');
+  console.log('  --max-sessions <n>  - Cap on executor sessions in flight across the run');
+  console.log('  --context-chars <n> - Size budget for upstream context in each prompt (default 4000, 0 disables)');
+  console.log('  --context-truncation <s> - How to fit the budget: drop-oldest (default) or even');
+  console.log('  --composition <mode> - Build parent results with concatenate (default) or llm');
+  console.log('  --recovery <list>   - Recovery strategies for failed leaves, e.g. retry,redecompose,escalate');
+  console.log('  --max-recovery-attempts <n> - Cap on recovery attempts per run (default 5)');
+  console.log('  --budget-sessions <n> - Stop after n executor sessions (resumable)');
+  console.log('  --budget-tokens <n> - Stop after about n estimated tokens (resumable)');
+  console.log('  --budget-seconds <n> - Stop after n seconds of wall-clock time (resumable)');
+  console.log('  --plugins <list>    - Plugin modules to load for the run, comma separated');
+  console.log('  --decomposition-timeout <n> - Fall back after a decomposition runs n seconds');
+  console.log('  --sample-timeout <n> - Cancel voting samples still running after n seconds (default 60)');
+  console.log('  --round-timeout <n>  - Fail a task whose voting round runs n seconds without a winner');
+  console.log('  --aggregation-timeout <n> - Concatenate results when composition runs n seconds');
+  console.log('  --deadline <n>      - Stop the run after n seconds, cancelling running sessions (resumable)');
+  console.log('  --k <n|auto>        - Voting margin (default 2); auto derives it from the target reliability');
+  console.log('  --target-reliability <p> - Whole-run success probability for --k auto (default 0.95)');
+  console.log('  --batch-size <n>    - Samples launched at once in a voting round (default 3)');
+  console.log('  --max-rounds <n>    - Batches per voting round before asking for a veto (default 10)');
+  console.log('  --adaptive-sampling - Launch only the samples the leader still needs to win by k');
+  console.log('  --poll-interval <n> - Seconds before the first poll of a batch; later polls back off (default 2)');
+  console.log('  --canonicalize <a,b> - Canonicalize samples before comparing them (strip-chatter, final-answer, whitespace, json, typescript)');
+  console.log('  --similarity <0-1>  - Group samples whose canonical forms are at least this similar');
+  console.log('  --verify <command>  - Check each leading candidate with a local command before it wins');
+  console.log('  --verify-repo <dir> - Clone whose worktrees are used to check patch candidates');
+  console.log('  --verify-llm        - Also check candidates against their acceptance criteria with the executor');
+  console.log('  --outline <file>    - Where maker plan writes the plan: .md outline (default maker-plan.md) or .yaml');
 }
 
 main();
@@ -0,0 +1,175 @@
+import * as readline from 'readline';
+import { Readable, Writable } from 'stream';
+import { MakerConfig } from '../types/maker.js';
+import { validateSchema } from '../utils/schema.js';
+import { createMakerTools, IMakerTool } from './tools.js';
+
+const SERVER_INFO = { name: 'maker-framework-extension', version: '0.1.0' };
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// JSON-RPC 2.0 error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+interface IJsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * Error carrying a JSON-RPC error code.
+ */
+class JsonRpcError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message);
+  }
+}
+
+/**
+ * Minimal Model Context Protocol server over stdio.
+ * Messages are newline-delimited JSON-RPC 2.0. Exposes `maker_decompose`,
+ * `maker_vote` and `maker_redflag`, validating tool arguments against their
+ * input schemas and returning structured content.
+ */
+export class MakerMcpServer {
+  private tools: Map<string, IMakerTool>;
+  private input: Readable;
+  private output: Writable;
+
+  constructor(config: MakerConfig, input: Readable = process.stdin, output: Writable = process.stdout) {
+    this.tools = new Map(createMakerTools(config).map(tool => [tool.name, tool]));
+    this.input = input;
+    this.output = output;
+  }
+
+  /**
+   * Serves requests until the input stream closes.
+   */
+  public async serve(): Promise<void> {
+    const lines = readline.createInterface({ input: this.input, crlfDelay: Infinity });
+    const pending: Promise<void>[] = [];
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      // One bad line must not take the server down.
+      pending.push(this.handleLine(line).catch(error => {
+        console.error(`[MCP] Failed to handle request: ${error.message}`);
+      }));
+    }
+
+    await Promise.all(pending);
+  }
+
+  /**
+   * Handles a single line of input and writes the response, if any.
+   */
+  public async handleLine(line: string): Promise<void> {
+    let message: IJsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+      return;
+    }
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      this.send({ jsonrpc: '2.0', id: null, error: { code: INVALID_REQUEST, message: 'Invalid request' } });
+      return;
+    }
+
+    const isNotification = message.id === undefined;
+    try {
+      if (message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+        throw new JsonRpcError(INVALID_REQUEST, 'Invalid request');
+      }
+
+      const result = await this.dispatch(message.method, message.params || {});
+      if (!isNotification) {
+        this.send({ jsonrpc: '2.0', id: message.id, result });
+      }
+    } catch (error: any) {
+      if (isNotification) return;
+      const code = error instanceof JsonRpcError ? error.code : -32603;
+      this.send({
+        jsonrpc: '2.0',
+        id: message.id ?? null,
+        error: { code, message: error.message, data: error instanceof JsonRpcError ? error.data : undefined }
+      });
+    }
+  }
+
+  /**
+   * Routes a JSON-RPC method to its handler.
+   */
+  private async dispatch(method: string, params: Record<string, any>): Promise<unknown> {
+    switch (method) {
+      case 'initialize': {
+        const requested = params.protocolVersion;
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: SERVER_INFO
+        };
+      }
+
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return undefined;
+
+      case 'ping':
+        return {};
+
+      case 'tools/list':
+        return {
+          tools: [...this.tools.values()].map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: tool.inputSchema,
+            outputSchema: tool.outputSchema
+          }))
+        };
+
+      case 'tools/call':
+        return this.callTool(params.name, params.arguments || {});
+
+      default:
+        throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  /**
+   * Validates arguments and runs a tool. Failures inside the tool are
+   * reported as tool errors (`isError`) rather than protocol errors.
+   */
+  private async callTool(name: string, args: Record<string, any>): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new JsonRpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+
+    const errors = validateSchema(args, tool.inputSchema, 'arguments');
+    if (errors.length > 0) {
+      throw new JsonRpcError(INVALID_PARAMS, `Invalid arguments for ${name}: ${errors.join('; ')}`, errors);
+    }
+
+    try {
+      const structuredContent = await tool.handler(args);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(structuredContent, null, 2) }],
+        structuredContent
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: 'text', text: `${name} failed: ${error.message}` }],
+        isError: true
+      };
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    this.output.write(`${JSON.stringify(message)}\n`);
+  }
+}
@@ -0,0 +1,185 @@
+import { IMakerTask, MakerConfig, ICanonicalizationConfig } from '../types/maker.js';
+import { IJsonSchema } from '../utils/schema.js';
+import { DecompositionAgent } from '../agents/decomposition.js';
+import { findLeaderAheadByK } from '../agents/voting.js';
+import { TaskTreeManager } from '../utils/task-tree.js';
+import { checkRedFlags } from '../utils/red-flagging.js';
+import { CandidatePool } from '../utils/canonicalize.js';
+import { checkVotingMargin, fixedVotingThreshold } from '../utils/reliability.js';
+import { createExecutor, createTextExecutor } from '../executors/index.js';
+import { createRepoProvider } from '../providers/index.js';
+
+/**
+ * A MAKER capability exposed as a standalone tool.
+ */
+export interface IMakerTool {
+  name: string;
+  description: string;
+  inputSchema: IJsonSchema;
+  outputSchema: IJsonSchema;
+  handler(args: Record<string, any>): Promise<Record<string, unknown>>;
+}
+
+/**
+ * Creates the tools declared in gemini-extension.json.
+ * Input schemas extend the manifest's parameters with optional settings.
+ * 
+ * @param config - Configuration used for decomposition and voting defaults.
+ * @throws Error if the voting margin settings are out of range.
+ */
+export function createMakerTools(config: MakerConfig): IMakerTool[] {
+  checkVotingMargin(config);
+  return [
+    {
+      name: 'maker_decompose',
+      description: 'Decompose a complex task into subtasks.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          task: { type: 'string', description: 'The task to decompose.', minLength: 1 },
+          repoName: { type: 'string', description: 'Repository (owner/name) providing context for the executor.' }
+        },
+        required: ['task'],
+        additionalProperties: false
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          subtasks: { type: 'array', items: { type: 'string' } },
+          rationale: { type: 'string' },
+          isMinimal: { type: 'boolean' },
+          dependencies: { type: 'object', description: 'Prerequisite indices keyed by subtask index.' },
+          acceptanceCriteria: { type: 'object', description: 'Acceptance criteria keyed by subtask index.' }
+        },
+        required: ['subtasks', 'rationale', 'isMinimal']
+      },
+      handler: async args => {
+        const repoProvider = createRepoProvider(config);
+        const executor = createTextExecutor(config, createExecutor(config, repoProvider), repoProvider);
+        const agent = new DecompositionAgent(new TaskTreeManager(), executor);
+        const task: IMakerTask = {
+          id: 'root',
+          description: args.task,
+          status: 'pending',
+          metadata: { depth: 0, repoName: args.repoName }
+        };
+
+        const result = await agent.decomposeTask(task, config);
+        return {
+          subtasks: result.subtasks,
+          rationale: result.rationale,
+          isMinimal: task.metadata?.isMinimal === true,
+          ...(result.dependencies ? { dependencies: result.dependencies } : {}),
+          ...(result.acceptanceCriteria ? { acceptanceCriteria: result.acceptanceCriteria } : {})
+        };
+      }
+    },
+    {
+      name: 'maker_vote',
+      description: 'Vote on the best solution among multiple candidates.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          candidates: {
+            type: 'array',
+            items: { type: 'string' },
+            minItems: 1,
+            description: 'List of candidate solutions, in the order they were sampled.'
+          },
+          k: { type: 'integer', minimum: 1, description: 'Required vote margin. Defaults to the configured threshold.' }
+        },
+        required: ['candidates'],
+        additionalProperties: false
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          winnerIndex: { type: 'integer' },
+          winner: { type: 'string' },
+          confidence: { type: 'number' },
+          rationale: { type: 'string' },
+          votes: { type: 'object' },
+          redFlagged: { type: 'array', items: { type: 'object' } }
+        },
+        required: ['winnerIndex', 'confidence', 'rationale', 'votes', 'redFlagged']
+      },
+      handler: async args => voteOnCandidates(args.candidates, args.k ?? fixedVotingThreshold(config), config.canonicalization)
+    },
+    {
+      name: 'maker_redflag',
+      description: 'Identify red flags or issues in a proposed solution.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          solution: { type: 'string', description: 'The solution to review.' }
+        },
+        required: ['solution'],
+        additionalProperties: false
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          isRedFlagged: { type: 'boolean' },
+          reason: { type: 'string' },
+          severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+          suggestions: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['isRedFlagged', 'severity']
+      },
+      handler: async args => ({ ...checkRedFlags(args.solution) })
+    }
+  ];
+}
+
+/**
+ * Applies red-flagging and "first-to-ahead-by-k" voting to a fixed list of
+ * candidates, treating them as samples in order. Candidates that match after
+ * canonicalization vote together; indices refer to the first occurrence.
+ */
+function voteOnCandidates(candidates: string[], k: number, canonicalization?: ICanonicalizationConfig): Record<string, unknown> {
+  const pool = new CandidatePool(canonicalization);
+  const firstIndex: number[] = []; // pool index -> index of the first occurrence
+  const votes: Record<number, number> = {};
+  const redFlagged: Array<{ index: number; reason?: string; severity: string }> = [];
+  let totalVotes = 0;
+  let winner: { index: number; margin: number } | null = null;
+
+  for (let i = 0; i < candidates.length && !winner; i++) {
+    const redFlag = checkRedFlags(candidates[i]);
+    if (redFlag.isRedFlagged) {
+      redFlagged.push({ index: i, reason: redFlag.reason, severity: redFlag.severity });
+      continue;
+    }
+
+    const { index, isNew } = pool.assign(candidates[i], `candidate-${i}`);
+    if (isNew) {
+      firstIndex[index] = i;
+      votes[i] = 0;
+    }
+    votes[firstIndex[index]]++;
+    totalVotes++;
+
+    winner = findLeaderAheadByK(votes, k);
+  }
+
+  if (!winner) {
+    return {
+      winnerIndex: -1,
+      confidence: 0,
+      rationale: totalVotes > 0
+        ? `No candidate got ahead by ${k} votes (Total: ${totalVotes}).`
+        : 'No valid candidates after red-flagging.',
+      votes,
+      redFlagged
+    };
+  }
+
+  return {
+    winnerIndex: winner.index,
+    winner: candidates[winner.index].trim(),
+    confidence: votes[winner.index] / totalVotes,
+    rationale: `Winner selected with ${votes[winner.index]} votes, ahead by ${winner.margin} (Total: ${totalVotes}).`,
+    votes,
+    redFlagged
+  };
+}
@@ -1,25 +1,142 @@
-import { IMakerTask, MakerConfig } from './types/maker.js';
+import { IMakerTask, MakerConfig, IMakerExecutor, IRepoProvider, IDecompositionResult, IRecoveryAttempt, RecoveryStrategy, IRunCostSummary, IRunOptions, IMakerPlugin, ITimeoutRecord, IVerificationResult } from './types/maker.js';
 import { TaskTreeManager } from './utils/task-tree.js';
 import { StateManager } from './utils/state-manager.js';
 import { DecompositionAgent } from './agents/decomposition.js';
 import { VotingAgent } from './agents/voting.js';
-import { createRepo } from './bridges/github.js';
+import { CompositionAgent } from './agents/composition.js';
+import { VerificationAgent } from './agents/verification.js';
+import { createExecutor, createTextExecutor } from './executors/index.js';
+import { createRepoProvider } from './providers/index.js';
+import { deliverTaskResult } from './utils/delivery.js';
+import { IssueSync } from './utils/issue-sync.js';
+import { askUserEscalation } from './utils/hitl.js';
+import { RunBudget, BudgetExceededError } from './utils/budget.js';
+import { RunCancelledError, throwIfAborted } from './utils/cancellation.js';
+import { RunDeadline, recordTimeout } from './utils/timeouts.js';
+import { ReliabilityEstimator, checkVotingMargin } from './utils/reliability.js';
+import { createCanonicalizer } from './utils/canonicalize.js';
+import { Cassette, ICassetteProgress, useCassette } from './bridges/command.js';
+import { Semaphore } from './utils/concurrency.js';
+import { buildTaskContext, buildTaskPrompt } from './utils/context.js';
+import { MakerEventBus } from './utils/events.js';
+import { PluginHost, IHookOutcome, loadPlugins } from './utils/plugins.js';
+
+/**
+ * What a new run does with its tree: process an idea from scratch, only plan
+ * it, or execute a tree that was built beforehand.
+ */
+type RunMode = 'run' | 'plan' | 'execute';
 
 /**
  * Orchestrates the Massively Decomposed Agentic Process (MDAP) lifecycle.
  * Manages task decomposition, voting, and result aggregation.
  */
 export class MakerOrchestrator {
+  /** Lifecycle events for every run of this orchestrator. */
+  public readonly events = new MakerEventBus();
   private taskTreeManager: TaskTreeManager;
   private stateManager: StateManager;
   private decompositionAgent: DecompositionAgent;
   private votingAgent: VotingAgent;
+  private compositionAgent: CompositionAgent;
+  private verificationAgent: VerificationAgent;
+  private executorOverride?: IMakerExecutor;
+  private issueSync: IssueSync | null = null;
+  private repoProvider: IRepoProvider | null = null;
+  private deliveryLock = new Semaphore(1);
+  private recoveryAttempts = 0;
+  private budget: RunBudget | null = null;
+  private signal: AbortSignal | null = null;
+  private deadline: RunDeadline | null = null;
+  private cassette: Cassette | null = null;
+  private plugins: IMakerPlugin[] = [];
+  private pluginHost = new PluginHost();
 
-  constructor() {
+  /**
+   * @param executor - Optional executor instance. When omitted, the executor is
+   * created from `MakerConfig.executor` at the start of each run.
+   */
+  constructor(executor?: IMakerExecutor) {
     this.taskTreeManager = new TaskTreeManager();
     this.stateManager = new StateManager();
     this.decompositionAgent = new DecompositionAgent(this.taskTreeManager);
     this.votingAgent = new VotingAgent();
+    this.compositionAgent = new CompositionAgent(this.votingAgent);
+    this.verificationAgent = new VerificationAgent();
+    this.votingAgent.setEvents(this.events);
+    this.executorOverride = executor;
+  }
+
+  /**
+   * Registers a plugin for every later run, in addition to those in `MakerConfig.plugins`.
+   */
+  public use(plugin: IMakerPlugin): this {
+    this.plugins.push(plugin);
+    return this;
+  }
+
+  /**
+   * Points both agents at the executor for this run and selects the repo provider.
+   */
+  private configureExecutor(config: MakerConfig, options: IRunOptions, root: IMakerTask): void {
+    this.repoProvider = createRepoProvider(config);
+    const executor = this.executorOverride || createExecutor(config, this.repoProvider);
+    const textExecutor = createTextExecutor(config, executor, this.repoProvider);
+    console.log(`[Orchestrator] Using ${executor.name} executor${textExecutor !== executor ? ` (${textExecutor.name} for text phases)` : ''}.`);
+    this.votingAgent.setExecutor(executor);
+    this.decompositionAgent.setExecutor(textExecutor);
+    this.compositionAgent.setExecutor(textExecutor);
+    this.verificationAgent.setExecutor(textExecutor);
+
+    // One limiter per run, shared by every decomposition and voting round.
+    const limiter = config.maxInFlightSessions ? new Semaphore(config.maxInFlightSessions) : null;
+    this.decompositionAgent.setSessionLimiter(limiter);
+    this.votingAgent.setSessionLimiter(limiter);
+    this.verificationAgent.setSessionLimiter(limiter);
+
+    // Budgets also start fresh for every run, including resumed ones.
+    this.budget = new RunBudget(config.budget);
+    this.decompositionAgent.setBudget(this.budget);
+    this.votingAgent.setBudget(this.budget);
+    this.verificationAgent.setBudget(this.budget);
+
+    // The run deadline aborts the same signal as a caller's cancellation.
+    this.deadline?.dispose();
+    this.deadline = new RunDeadline(options.signal || null, config.timeouts?.runSeconds);
+    this.signal = this.deadline.signal;
+    this.decompositionAgent.setSignal(this.signal);
+    this.votingAgent.setSignal(this.signal);
+    this.verificationAgent.setSignal(this.signal);
+
+    // With an automatic margin, k is re-estimated from this run's rounds.
+    this.votingAgent.setReliability(config.votingThreshold === 'auto' ? new ReliabilityEstimator(config, root) : null);
+  }
+
+  /**
+   * Enables GitHub issue mirroring for this run if configured.
+   */
+  private configureIssueSync(config: MakerConfig, root: IMakerTask): void {
+    this.issueSync = null;
+    if (!config.issueSync?.enabled) return;
+
+    const repo = config.issueSync.repo || root.metadata?.repoName;
+    if (!repo) {
+      console.warn('[Orchestrator] Issue sync enabled but no repository is known. Skipping issue sync.');
+      return;
+    }
+    this.issueSync = new IssueSync(repo, this.taskTreeManager);
+  }
+
+  /**
+   * Mirrors a task's current state to its GitHub issue. Never fails the run.
+   */
+  private async syncIssue(task: IMakerTask, root: IMakerTask): Promise<void> {
+    if (!this.issueSync) return;
+    try {
+      await this.issueSync.syncTask(task, root);
+    } catch (error: any) {
+      console.warn(`[Orchestrator] Failed to sync issue for task ${task.id}: ${error.message}`);
+    }
   }
 
   /**
@@ -27,48 +144,263 @@ export class MakerOrchestrator {
    * 
    * @param idea - The high-level idea or goal to achieve.
    * @param config - Configuration for the MAKER framework.
+   * @param options - Optional AbortSignal that stops the run cleanly.
    * @returns A promise that resolves to the root task of the completed process.
    */
-  public async runMaker(idea: string, config: MakerConfig): Promise<IMakerTask> {
-    console.log(`[Orchestrator] Starting MAKER process for: "${idea}"`);
+  public async runMaker(idea: string, config: MakerConfig, options: IRunOptions = {}): Promise<IMakerTask> {
+    return this.withCassette(config, () => this.withPlugins(config, () => this.startRun(this.createRoot(idea), config, options, 'run')));
+  }
 
-    // 1. Initialize the Task Tree.
-    const rootTask: IMakerTask = {
+  /**
+   * Decomposes an idea into the full task tree without executing any leaf.
+   * Every task stays pending and leaves are marked minimal, so the saved state
+   * can be reviewed and then executed with `resumeMaker`.
+   *
+   * @param idea - The high-level idea or goal to plan.
+   * @param config - Configuration for the MAKER framework.
+   * @param options - Optional AbortSignal that stops planning cleanly.
+   * @returns A promise that resolves to the root task of the planned tree.
+   */
+  public async planMaker(idea: string, config: MakerConfig, options: IRunOptions = {}): Promise<IMakerTask> {
+    return this.withCassette(config, () => this.withPlugins(config, () => this.startRun(this.createRoot(idea), config, options, 'plan')));
+  }
+
+  /**
+   * Executes a task tree built beforehand, e.g. from a hand-edited plan file,
+   * instead of decomposing an idea. Tasks with subtasks are not decomposed
+   * again; leaves are decomposed unless they are marked minimal.
+   *
+   * @param rootTask - Root of the pre-built tree. It is validated before the run starts.
+   * @param config - Configuration for the MAKER framework.
+   * @param options - Optional AbortSignal that stops the run cleanly.
+   * @returns A promise that resolves to the root task of the completed process.
+   */
+  public async executePlan(rootTask: IMakerTask, config: MakerConfig, options: IRunOptions = {}): Promise<IMakerTask> {
+    this.taskTreeManager.validateTree(rootTask);
+    return this.withCassette(config, () => this.withPlugins(config, () => this.startRun(rootTask, config, options, 'execute')));
+  }
+
+  /**
+   * Creates the root task for a new idea.
+   */
+  private createRoot(idea: string): IMakerTask {
+    return {
       id: 'root',
       description: idea,
       status: 'pending',
       metadata: { depth: 0 }
     };
+  }
 
-    // 2. Set up the GitHub repository context.
-    // Sanitize idea for repo name
-    const repoName = idea.toLowerCase().replace(/[^a-z0-9]/g, '-').substring(0, 50);
-    console.log(`[Orchestrator] Setting up GitHub repository: ${repoName}`);
-    
-    try {
-      const repo = await createRepo(repoName, `MAKER generated repository for: ${idea}`);
-      rootTask.metadata!.repoName = `${repo.owner}/${repo.name}`;
-    } catch (error) {
-      console.warn(`[Orchestrator] Failed to create GitHub repo. Continuing without repo context.`);
+  /**
+   * Runs, plans or executes a new MAKER process once the cassette (if any) is active.
+   */
+  private async startRun(rootTask: IMakerTask, config: MakerConfig, options: IRunOptions, mode: RunMode): Promise<IMakerTask> {
+    const idea = rootTask.description;
+    const verb = mode === 'plan' ? 'Planning' : mode === 'execute' ? 'Executing plan for' : 'Starting';
+    console.log(`[Orchestrator] ${verb} MAKER process for: "${idea}"`);
+    this.configureExecutor(config, options, rootTask);
+    this.recoveryAttempts = 0;
+
+    // 2. Set up the repository context, unless a plan already names one.
+    if (!rootTask.metadata?.repoName) {
+      const repoName = await this.setupRepository(idea, config);
+      if (repoName) {
+        this.setRepoName(rootTask, repoName);
+      }
     }
 
+    this.configureIssueSync(config, rootTask);
+    await this.syncIssue(rootTask, rootTask);
+
     // Initial state save
     await this.stateManager.saveState({
       rootTask,
       config,
       metadata: { startTime: new Date().toISOString() }
     });
+    await this.events.emit('state:saved', { root: rootTask });
+    await this.events.emit('run:started', { root: rootTask, config, resumed: false });
 
-    // 3. Recursively decompose and 4. Trigger VotingAgent
-    await this.processTask(rootTask, rootTask, config);
+    if (mode === 'plan') {
+      await this.runUntilStopped(rootTask, () => this.planTask(rootTask, rootTask, config));
+      console.log(`[Orchestrator] MAKER plan ready for: "${idea}". Use 'maker resume' to execute it.`);
+      return rootTask;
+    }
 
-    // Final state save
-    await this.stateManager.updateState({ rootTask });
+    // 3. Recursively decompose and 4. Trigger VotingAgent
+    await this.runUntilStopped(rootTask, () => mode === 'execute'
+      ? this.resumeProcess(rootTask, rootTask, config)
+      : this.processTask(rootTask, rootTask, config));
 
     console.log(`[Orchestrator] MAKER process completed for: "${idea}"`);
     return rootTask;
   }
 
+  /**
+   * Records the run's repository on a task and all of its subtasks.
+   */
+  private setRepoName(task: IMakerTask, repoName: string): void {
+    task.metadata = { ...task.metadata, repoName };
+    for (const subtask of task.subtasks || []) {
+      this.setRepoName(subtask, repoName);
+    }
+  }
+
+  /**
+   * Recursively decomposes a task without running any voting round.
+   * Tasks that are not split further are marked minimal for execution.
+   */
+  private async planTask(task: IMakerTask, root: IMakerTask, config: MakerConfig): Promise<void> {
+    throwIfAborted(this.signal);
+    this.budget?.check();
+
+    if (!this.decompositionAgent.isMinimalTask(task)) {
+      console.log(`[Orchestrator] Planning task ${task.id}...`);
+      const decompositionResult = await this.decompose(task, config);
+      if (decompositionResult.subtasks.length > 0) {
+        await this.addSubtasks(task, root, decompositionResult);
+        await this.persist(root);
+        for (const subtask of task.subtasks!) {
+          await this.planTask(subtask, root, config);
+        }
+        return;
+      }
+    }
+
+    task.metadata = { ...task.metadata, isMinimal: true };
+    await this.persist(root);
+  }
+
+  /**
+   * Runs `work` and saves the final state with the run's cost summary. The run
+   * stops early when a budget is hit, the signal is aborted or the run deadline
+   * passes. After a budget stop unfinished tasks stay pending or in-progress;
+   * after cancellation or the deadline in-progress tasks are reset to pending. Either way `resumeMaker` picks them up.
+   */
+  private async runUntilStopped(root: IMakerTask, work: () => Promise<void>): Promise<void> {
+    let stoppedBy: IRunCostSummary['stoppedBy'];
+    try {
+      await work();
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        stoppedBy = error.limit;
+        console.warn(`[Orchestrator] Stopping the run: ${error.message} Use 'maker resume' to continue.`);
+      } else if (error instanceof RunCancelledError) {
+        stoppedBy = this.deadline?.hasExpired ? 'deadline' : 'cancelled';
+        console.warn(`[Orchestrator] Run ${stoppedBy === 'deadline' ? 'stopped at its deadline' : 'cancelled'}. Use 'maker resume' to continue.`);
+        this.resetInProgress(root);
+      } else {
+        throw error;
+      }
+    } finally {
+      this.deadline?.dispose();
+    }
+
+    // Final state save
+    const costSummary = this.budget!.summary(stoppedBy);
+    const cassette = this.cassette ? { cassette: this.cassette.progress } : {};
+    await this.stateManager.updateState({ rootTask: root, metadata: { costSummary, ...cassette } });
+    await this.events.emit('state:saved', { root });
+    this.logCostSummary(costSummary);
+    await this.events.emit('run:finished', { root, costSummary });
+  }
+
+  /**
+   * Saves the task tree and announces it.
+   */
+  private async persist(root: IMakerTask): Promise<void> {
+    await this.stateManager.updateState({ rootTask: root });
+    await this.events.emit('state:saved', { root });
+  }
+
+  /**
+   * Announces a task's final status.
+   */
+  private async announceOutcome(task: IMakerTask): Promise<void> {
+    if (task.status === 'completed') {
+      await this.events.emit('task:completed', { task });
+    } else if (task.status === 'failed') {
+      await this.events.emit('task:failed', { task });
+    }
+  }
+
+  /**
+   * Records a plugin veto on the task. Returns true if the step was vetoed.
+   */
+  private recordVeto(task: IMakerTask, outcome: IHookOutcome<unknown>): boolean {
+    if (!outcome.veto) return false;
+    task.metadata = { ...task.metadata, veto: outcome.veto };
+    return true;
+  }
+
+  /**
+   * Returns every in-progress task in the tree to pending.
+   */
+  private resetInProgress(task: IMakerTask): void {
+    if (task.status === 'in-progress') {
+      task.status = 'pending';
+    }
+    for (const subtask of task.subtasks || []) {
+      this.resetInProgress(subtask);
+    }
+  }
+
+  /**
+   * Prints what the run consumed.
+   */
+  private logCostSummary(summary: IRunCostSummary): void {
+    const stopNote = summary.stoppedBy === 'cancelled'
+      ? ' (cancelled)'
+      : summary.stoppedBy === 'deadline'
+        ? ' (stopped at the run deadline)'
+        : summary.stoppedBy ? ` (stopped by the ${summary.stoppedBy} budget)` : '';
+    console.log(
+      `[Orchestrator] Run cost: ${summary.sessions} executor sessions, ~${summary.estimatedTokens} tokens, ` +
+      `${summary.elapsedSeconds}s${stopNote}.`
+    );
+  }
+
+  /**
+   * Resolves the repository used as context for the run.
+   * In 'search' mode an existing repository is reused when one matches;
+   * otherwise a new repository is created. Returns undefined if neither works.
+   */
+  private async setupRepository(idea: string, config: MakerConfig): Promise<string | undefined> {
+    const provider = this.repoProvider!;
+
+    if (config.repoSelection?.mode === 'search') {
+      const query = config.repoSelection.query || idea;
+      if (!provider.searchRepositories) {
+        console.warn(`[Orchestrator] The ${provider.name} provider cannot search repositories. Creating a new one.`);
+      } else {
+        try {
+          const results = await provider.searchRepositories(query, 10);
+          const match = results.find(repo => repo.stars >= (config.repoSelection!.minStars || 0));
+          if (match) {
+            console.log(`[Orchestrator] Using existing repository ${match.owner}/${match.name} (${match.url}).`);
+            return `${match.owner}/${match.name}`;
+          }
+          console.log(`[Orchestrator] No existing repository matches "${query}". Creating a new one.`);
+        } catch (error) {
+          console.warn(`[Orchestrator] Repository search failed. Creating a new repository instead.`);
+        }
+      }
+    }
+
+    // Sanitize idea for repo name
+    const repoName = idea.toLowerCase().replace(/[^a-z0-9]/g, '-').substring(0, 50);
+    console.log(`[Orchestrator] Setting up ${provider.name} repository: ${repoName}`);
+    
+    try {
+      const repo = await provider.createRepo(repoName, `MAKER generated repository for: ${idea}`);
+      return `${repo.owner}/${repo.name}`;
+    } catch (error) {
+      console.warn(`[Orchestrator] Failed to create ${provider.name} repo. Continuing without repo context.`);
+      return undefined;
+    }
+  }
+
   /**
    * Recursively processes a task: decomposes if complex, votes if minimal.
    */
@@ -76,72 +408,342 @@ export class MakerOrchestrator {
     if (task.status === 'completed' || task.status === 'failed') {
       return;
     }
+    throwIfAborted(this.signal);
+    this.budget?.check();
 
     task.status = 'in-progress';
-    await this.stateManager.updateState({ rootTask: root });
+    await this.persist(root);
+    await this.syncIssue(task, root);
 
     if (this.decompositionAgent.isMinimalTask(task)) {
       // 4. For each minimal task, trigger the VotingAgent.
       console.log(`[Orchestrator] Task ${task.id} is minimal. Running voting round...`);
-      const voteResult = await this.votingAgent.runVotingRound(task, config);
-      
-      if (voteResult.winnerIndex !== -1) {
-        task.status = 'completed';
-      } else {
-        task.status = 'failed';
-      }
+      await this.executeMinimalTask(task, root, config);
+      await this.recoverTask(task, root, config);
     } else {
       // 3. Recursively decompose the idea until "minimal" tasks are reached.
       console.log(`[Orchestrator] Decomposing task ${task.id}...`);
-      const decompositionResult = await this.decompositionAgent.decomposeTask(task, config);
+      const decompositionResult = await this.decompose(task, config);
       
       if (decompositionResult.subtasks.length > 0) {
-        this.decompositionAgent.addSubtasksToTree(task, root, decompositionResult);
-        
-        // Process subtasks
-        if (task.subtasks) {
-          for (const subtask of task.subtasks) {
-            // Ensure subtask knows about the repo
-            subtask.metadata = { 
-              ...subtask.metadata, 
-              repoName: task.metadata?.repoName 
-            };
-            await this.processTask(subtask, root, config);
-          }
-        }
-
-        // 5. Aggregate and compose results as it moves back up the tree.
-        this.aggregateResults(task);
+        await this.expandTask(task, root, config, decompositionResult);
       } else {
         // If no subtasks were generated but it's not minimal, it might be a leaf that failed decomposition
         // or reached max depth. Treat as minimal or fail.
         console.warn(`[Orchestrator] Task ${task.id} could not be decomposed further. Treating as minimal.`);
-        const voteResult = await this.votingAgent.runVotingRound(task, config);
-        if (voteResult.winnerIndex !== -1) {
-          task.status = 'completed';
-        } else {
+        await this.executeMinimalTask(task, root, config);
+        await this.recoverTask(task, root, config);
+      }
+    }
+
+    await this.syncIssue(task, root);
+
+    // 6. Persist state using StateManager.
+    await this.persist(root);
+    await this.announceOutcome(task);
+  }
+
+  /**
+   * Decomposes a task and lets plugins adjust the subtasks. A veto returns no
+   * subtasks, so the caller handles the task as if it could not be split.
+   */
+  private async decompose(task: IMakerTask, config: MakerConfig, force = false): Promise<IDecompositionResult> {
+    const decompositionResult = await this.decompositionAgent.decomposeTask(task, config, { force });
+    if (decompositionResult.subtasks.length === 0) {
+      return decompositionResult;
+    }
+    const outcome = await this.pluginHost.runHook('afterDecomposition', task, decompositionResult);
+    if (this.recordVeto(task, outcome)) {
+      return { subtasks: [], rationale: `Decomposition vetoed: ${outcome.veto!.reason}` };
+    }
+    return outcome.value;
+  }
+
+  /**
+   * Adds the decomposed subtasks to the tree, processes them and aggregates their results.
+   */
+  private async expandTask(
+    task: IMakerTask,
+    root: IMakerTask,
+    config: MakerConfig,
+    decompositionResult: IDecompositionResult
+  ): Promise<void> {
+    await this.addSubtasks(task, root, decompositionResult);
+
+    // Process subtasks
+    if (task.subtasks) {
+      await this.runSubtasks(task, root, config, subtask => this.processTask(subtask, root, config));
+    }
+
+    // 5. Aggregate and compose results as it moves back up the tree.
+    await this.aggregateResults(task, config);
+  }
+
+  /**
+   * Adds the decomposed subtasks to the tree and mirrors them as issues.
+   */
+  private async addSubtasks(task: IMakerTask, root: IMakerTask, decompositionResult: IDecompositionResult): Promise<void> {
+    this.decompositionAgent.addSubtasksToTree(task, root, decompositionResult);
+    await this.events.emit('task:decomposed', { task, subtasks: task.subtasks || [] });
+
+    for (const subtask of task.subtasks || []) {
+      // Ensure subtask knows about the repo
+      subtask.metadata = { 
+        ...subtask.metadata, 
+        repoName: task.metadata?.repoName 
+      };
+      await this.syncIssue(subtask, root);
+    }
+  }
+
+  /**
+   * Applies the recovery policy to a failed leaf. Strategies are tried in order
+   * until the task completes or the run's attempt cap is reached.
+   */
+  private async recoverTask(task: IMakerTask, root: IMakerTask, config: MakerConfig): Promise<void> {
+    const strategies: RecoveryStrategy[] = task.metadata?.recovery ?? config.recovery?.strategies ?? [];
+    const maxAttempts = config.recovery?.maxAttempts ?? 5;
+
+    for (const strategy of strategies) {
+      if (task.status !== 'failed') return;
+      if (this.recoveryAttempts >= maxAttempts) {
+        console.warn(`[Orchestrator] Recovery attempt cap (${maxAttempts}) reached. Task ${task.id} stays failed.`);
+        return;
+      }
+      this.recoveryAttempts++;
+
+      console.log(`[Orchestrator] Recovering task ${task.id} with strategy '${strategy}'...`);
+      const attempt: IRecoveryAttempt = { strategy, startedAt: new Date().toISOString(), outcome: 'failed' };
+      task.status = 'in-progress';
+      try {
+        attempt.detail = await this.applyRecoveryStrategy(strategy, task, root, config);
+      } catch (error: any) {
+        if (error instanceof BudgetExceededError || error instanceof RunCancelledError) {
+          throw error;
+        }
+        task.status = 'failed';
+        attempt.detail = error.message;
+      }
+      attempt.outcome = task.status;
+
+      task.metadata = {
+        ...task.metadata,
+        recoveryAttempts: [...(task.metadata?.recoveryAttempts || []), attempt]
+      };
+      await this.persist(root);
+    }
+  }
+
+  /**
+   * Runs a single recovery strategy and leaves the task completed or failed.
+   * Returns a short note for the attempt history.
+   */
+  private async applyRecoveryStrategy(
+    strategy: RecoveryStrategy,
+    task: IMakerTask,
+    root: IMakerTask,
+    config: MakerConfig
+  ): Promise<string | undefined> {
+    switch (strategy) {
+      case 'retry':
+        // A new voting round starts with a fresh sample budget.
+        await this.executeMinimalTask(task, root, config);
+        return undefined;
+
+      case 'redecompose': {
+        const decompositionResult = await this.decompose(task, config, true);
+        if (decompositionResult.subtasks.length === 0) {
           task.status = 'failed';
+          return 'Decomposition produced no subtasks.';
+        }
+        task.metadata = { ...task.metadata, isMinimal: false };
+        await this.expandTask(task, root, config, decompositionResult);
+        return `Split into ${decompositionResult.subtasks.length} subtasks.`;
+      }
+
+      case 'escalate': {
+        const response = await askUserEscalation(task, this.describeFailure(task));
+        if (response?.action === 'result') {
+          task.status = 'completed';
+          task.result = response.text;
+          task.metadata = { ...task.metadata, resultSource: 'user' };
+          return 'Result provided by the user.';
+        }
+        if (response?.action === 'guidance') {
+          task.metadata = { ...task.metadata, userGuidance: response.text };
+          await this.executeMinimalTask(task, root, config);
+          return 'Retried with guidance from the user.';
         }
+        task.status = 'failed';
+        return 'The user kept the task failed.';
       }
     }
+  }
 
-    // 6. Persist state using StateManager.
-    await this.stateManager.updateState({ rootTask: root });
+  /**
+   * Explains why a task failed, for the user it is escalated to.
+   */
+  private describeFailure(task: IMakerTask): string {
+    const metadata = task.metadata || {};
+    if (metadata.veto) {
+      return `plugin '${metadata.veto.plugin}' vetoed ${metadata.veto.hook}: ${metadata.veto.reason}`;
+    }
+    if (metadata.blockedBy?.length) {
+      return `it is blocked by ${metadata.blockedBy.join(', ')}`;
+    }
+    if (metadata.rejectedCandidates?.length) {
+      const rejected: { verification?: IVerificationResult }[] = metadata.rejectedCandidates;
+      const failedChecks = new Set(rejected.flatMap(candidate =>
+        (candidate.verification?.checks || []).filter(check => !check.passed).map(check => check.name)));
+      return `${metadata.rejectedCandidates.length} leading candidate(s) failed verification (${[...failedChecks].join(', ') || 'no details'})`;
+    }
+    if (metadata.timeouts?.length) {
+      const last: ITimeoutRecord = metadata.timeouts[metadata.timeouts.length - 1];
+      return `the ${last.phase} phase timed out after ${last.seconds}s${last.detail ? ` (${last.detail})` : ''}`;
+    }
+    return 'no candidate won the vote';
+  }
+
+  /**
+   * Runs a task's subtasks in dependency order, at most `maxConcurrency` at a time.
+   * A subtask whose prerequisites did not all complete is marked blocked instead.
+   */
+  private async runSubtasks(
+    task: IMakerTask,
+    root: IMakerTask,
+    config: MakerConfig,
+    run: (subtask: IMakerTask) => Promise<void>
+  ): Promise<void> {
+    const siblings = new Map(task.subtasks!.map(subtask => [subtask.id, subtask]));
+    const slots = new Semaphore(config.maxConcurrency ?? 1);
+    const runs = new Map<string, Promise<void>>();
+    let failed = false;
+
+    for (const subtask of this.taskTreeManager.getExecutionOrder(task.subtasks!)) {
+      const prerequisites = (subtask.dependencies || []).filter(id => siblings.has(id));
+      runs.set(subtask.id, Promise.all(prerequisites.map(id => runs.get(id))).then(async () => {
+        const unmet = prerequisites.filter(id => siblings.get(id)!.status !== 'completed');
+        if (unmet.length > 0) {
+          await this.blockTask(subtask, unmet, root);
+          return;
+        }
+        await slots.run(async () => {
+          if (failed) return;
+          try {
+            await run(subtask);
+          } catch (error) {
+            failed = true;
+            throw error;
+          }
+        });
+      }));
+    }
+
+    const settled = await Promise.allSettled(runs.values());
+    const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Marks a task as blocked by prerequisites that failed or were blocked themselves.
+   */
+  private async blockTask(task: IMakerTask, blockedBy: string[], root: IMakerTask): Promise<void> {
+    console.warn(`[Orchestrator] Task ${task.id} is blocked by ${blockedBy.join(', ')}.`);
+    task.status = 'blocked';
+    task.metadata = { ...task.metadata, blockedBy };
+    await this.syncIssue(task, root);
+    await this.persist(root);
+  }
+
+  /**
+   * Runs voting for a minimal task and, if configured, delivers the winner as a pull request.
+   * The prompt carries the root goal, ancestor chain and upstream results. With
+   * verification enabled, only a candidate that passes its checks can win.
+   */
+  private async executeMinimalTask(task: IMakerTask, root: IMakerTask, config: MakerConfig): Promise<void> {
+    const context = buildTaskContext(task, root, this.taskTreeManager, config.context);
+    task.metadata = {
+      ...task.metadata,
+      context: { sources: context.sources, chars: context.text.length, truncated: context.truncated }
+    };
+
+    const prompt = await this.pluginHost.runHook('beforeVote', task, buildTaskPrompt(task, context));
+    if (this.recordVeto(task, prompt)) {
+      task.status = 'failed';
+      return;
+    }
+
+    const timeoutSeconds = config.timeouts?.votingRoundSeconds;
+    const voteResult = await this.votingAgent.runVotingRound(task, config, {
+      prompt: prompt.value,
+      timeoutSeconds,
+      verify: this.verificationAgent.isEnabled(config)
+        ? (content, remainingSeconds) => this.verificationAgent.verify(task, content, config, remainingSeconds)
+        : undefined
+    });
+
+    if (voteResult.timedOut && timeoutSeconds) {
+      recordTimeout(task, 'voting-round', timeoutSeconds);
+    }
+    if (voteResult.winnerIndex === -1) {
+      task.status = 'failed';
+      return;
+    }
+
+    const accepted = await this.pluginHost.runHook('beforeAccept', task, task.result!);
+    if (this.recordVeto(task, accepted)) {
+      task.status = 'failed';
+      task.result = undefined;
+      return;
+    }
+    task.result = accepted.value;
+
+    task.status = 'completed';
+    if (config.delivery?.mode === 'pull-request') {
+      const delivery = await this.pluginHost.runHook('beforeDelivery', task, task.result);
+      if (this.recordVeto(task, delivery)) {
+        return;
+      }
+      task.result = delivery.value;
+      // Deliveries share one local clone, so they run one at a time.
+      await this.deliveryLock.run(() =>
+        deliverTaskResult(task, voteResult, config.delivery!, this.repoProvider!)
+      );
+    }
   }
 
   /**
    * Aggregates results from subtasks into the parent task.
+   * The composition agent synthesizes the children's results; the plain
+   * concatenation is kept in `metadata.concatenatedResult` and used as the
+   * result when composition is disabled or produces no winner.
    */
-  private aggregateResults(task: IMakerTask): void {
+  private async aggregateResults(task: IMakerTask, config: MakerConfig): Promise<void> {
     if (!task.subtasks || task.subtasks.length === 0) return;
 
     const allCompleted = task.subtasks.every(st => st.status === 'completed');
-    const anyFailed = task.subtasks.some(st => st.status === 'failed');
+    const anyFailed = task.subtasks.some(st => st.status === 'failed' || st.status === 'blocked');
 
     if (allCompleted) {
+      const concatenatedResult = task.subtasks.map(st => st.result).join('\n\n');
+      let compositionMethod = 'concatenation';
+
+      if (config.composition?.mode === 'llm') {
+        const voteResult = await this.compositionAgent.composeResults(task, config);
+        if (voteResult.winnerIndex !== -1) {
+          compositionMethod = 'llm';
+        } else {
+          console.warn(`[Orchestrator] No composition won for task ${task.id}. Falling back to concatenation.`);
+        }
+      }
+
       task.status = 'completed';
-      // Simple aggregation: concatenate results
-      task.result = task.subtasks.map(st => st.result).join('\n\n');
+      if (compositionMethod === 'concatenation') {
+        task.result = concatenatedResult;
+      }
+      task.metadata = { ...task.metadata, concatenatedResult, compositionMethod };
     } else if (anyFailed) {
       task.status = 'failed';
     }
@@ -151,20 +753,78 @@ export class MakerOrchestrator {
    * Resumes a previously saved MAKER process.
    * 
    * @param filePath - Path to the state file.
+   * @param options - Optional AbortSignal that stops the run cleanly.
    * @returns A promise that resolves to the root task of the completed process.
    */
-  public async resumeMaker(filePath?: string): Promise<IMakerTask> {
+  public async resumeMaker(filePath?: string, options: IRunOptions = {}): Promise<IMakerTask> {
     const state = await this.stateManager.loadState(filePath);
     if (!state.rootTask || !state.config) {
       throw new Error('No saved state found to resume.');
     }
 
-    console.log(`[Orchestrator] Resuming MAKER process for: "${state.rootTask.description}"`);
-    
-    // Find the first pending or in-progress task and continue
-    await this.resumeProcess(state.rootTask, state.rootTask, state.config);
-    
-    return state.rootTask;
+    const rootTask = state.rootTask;
+    const config = state.config;
+
+    return this.withCassette(config, () => this.withPlugins(config, async () => {
+      console.log(`[Orchestrator] Resuming MAKER process for: "${rootTask.description}"`);
+      this.configureExecutor(config, options, rootTask);
+      this.recoveryAttempts = 0;
+      this.configureIssueSync(config, rootTask);
+      await this.events.emit('run:started', { root: rootTask, config, resumed: true });
+      
+      // Find the first pending or in-progress task and continue
+      await this.runUntilStopped(rootTask, () => this.resumeProcess(rootTask, rootTask, config));
+      
+      return rootTask;
+    }), state.metadata.cassette ?? { used: [] });
+  }
+
+  /**
+   * Activates the registered plugins and those listed in `config.plugins` for
+   * the duration of `run`.
+   *
+   * @throws Error if `config.canonicalization` names a canonicalizer that is
+   * neither built in nor provided by a plugin, or if the voting margin
+   * settings are out of range.
+   */
+  private async withPlugins<T>(config: MakerConfig, run: () => Promise<T>): Promise<T> {
+    checkVotingMargin(config);
+    const loaded = await loadPlugins(config.plugins);
+    const host = new PluginHost([...this.plugins, ...loaded]);
+    createCanonicalizer(config.canonicalization?.canonicalizers, host.canonicalizers());
+    this.pluginHost = host;
+    const detach = this.pluginHost.attach(this.events);
+    this.votingAgent.setCanonicalizers(this.pluginHost.canonicalizers());
+    try {
+      return await run();
+    } finally {
+      detach();
+      this.pluginHost = new PluginHost();
+      this.votingAgent.setCanonicalizers({});
+    }
+  }
+
+  /**
+   * Records or replays every bridge invocation made during `run` when a
+   * cassette is configured. A resumed run passes the cassette progress saved
+   * with its state, so that it continues the cassette instead of starting over.
+   */
+  private async withCassette<T>(config: MakerConfig, run: () => Promise<T>, resume?: ICassetteProgress): Promise<T> {
+    if (!config.cassette) {
+      return run();
+    }
+
+    const cassette = await Cassette.open(config.cassette.mode, config.cassette.path, resume);
+    console.log(`[Orchestrator] Cassette ${config.cassette.mode === 'record' ? 'recording to' : 'replaying from'} ${config.cassette.path}`);
+    useCassette(cassette);
+    this.cassette = cassette;
+    try {
+      return await run();
+    } finally {
+      useCassette(null);
+      this.cassette = null;
+      await cassette.save();
+    }
   }
 
   /**
@@ -177,10 +837,10 @@ export class MakerOrchestrator {
 
     // If it has subtasks, resume them
     if (task.subtasks && task.subtasks.length > 0) {
-      for (const subtask of task.subtasks) {
-        await this.resumeProcess(subtask, root, config);
-      }
-      this.aggregateResults(task);
+      await this.runSubtasks(task, root, config, subtask => this.resumeProcess(subtask, root, config));
+      await this.aggregateResults(task, config);
+      await this.syncIssue(task, root);
+      await this.announceOutcome(task);
     } else {
       // Otherwise, process this task
       await this.processTask(task, root, config);
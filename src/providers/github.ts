@@ -0,0 +1,33 @@
+import { IRepoInfo, IRepoProvider, IRepoSearchResult } from '../types/maker.js';
+import { createRepo, searchRepositories, cloneRepo, createBranch, commitAndPush, createPullRequest } from '../bridges/github.js';
+
+/**
+ * Repo provider backed by GitHub through the 'gh' CLI bridge.
+ */
+export class GitHubRepoProvider implements IRepoProvider {
+  public readonly name = 'github';
+
+  public async createRepo(name: string, description?: string): Promise<IRepoInfo> {
+    return createRepo(name, description);
+  }
+
+  public async searchRepositories(query: string, limit?: number): Promise<IRepoSearchResult[]> {
+    return searchRepositories(query, limit);
+  }
+
+  public async cloneRepo(repo: string, localPath: string): Promise<boolean> {
+    return cloneRepo(repo, localPath);
+  }
+
+  public async createBranch(localPath: string, branchName: string, baseBranch?: string): Promise<boolean> {
+    return createBranch(localPath, branchName, baseBranch);
+  }
+
+  public async commitAndPush(localPath: string, branch: string, message: string): Promise<string> {
+    return commitAndPush(localPath, branch, message);
+  }
+
+  public async createPullRequest(localPath: string, title: string, body: string, head: string, base?: string): Promise<string> {
+    return createPullRequest(localPath, title, body, head, base);
+  }
+}
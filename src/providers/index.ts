@@ -0,0 +1,28 @@
+import { IRepoProvider, MakerConfig } from '../types/maker.js';
+import { GitHubRepoProvider } from './github.js';
+import { LocalBareRepoProvider } from './local.js';
+
+export { GitHubRepoProvider } from './github.js';
+export { LocalBareRepoProvider } from './local.js';
+
+/**
+ * Creates the repo provider selected by the MAKER configuration.
+ * Falls back to GitHub when no provider is configured.
+ */
+export function createRepoProvider(config: MakerConfig): IRepoProvider {
+  const providerConfig = config.repoProvider;
+
+  switch (providerConfig?.type ?? 'github') {
+    case 'github':
+      return new GitHubRepoProvider();
+
+    case 'local':
+      if (!providerConfig?.rootPath) {
+        throw new Error('The local repo provider requires "rootPath" to be set.');
+      }
+      return new LocalBareRepoProvider(providerConfig.rootPath);
+
+    default:
+      throw new Error(`Unknown repo provider type: ${providerConfig?.type}`);
+  }
+}
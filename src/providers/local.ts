@@ -0,0 +1,106 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { IRepoInfo, IRepoProvider } from '../types/maker.js';
+import { createBranch, commitAndPush } from '../bridges/github.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Git's well-known empty tree object, used to seed new repositories.
+ */
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+const LOCAL_OWNER = 'local';
+
+/**
+ * Repo provider that keeps bare repositories on the local filesystem.
+ * Intended for offline and air-gapped use: repositories live at
+ * `<rootPath>/<name>.git`, and pull requests are recorded as Markdown files
+ * under `<rootPath>/pull-requests/<name>/`.
+ */
+export class LocalBareRepoProvider implements IRepoProvider {
+  public readonly name = 'local';
+  private rootPath: string;
+
+  constructor(rootPath: string) {
+    this.rootPath = path.resolve(rootPath);
+  }
+
+  /**
+   * Creates a bare repository with an initial empty commit on 'main'.
+   * Reuses the repository if it already exists.
+   */
+  public async createRepo(name: string, description?: string): Promise<IRepoInfo> {
+    const repoPath = this.repoPath(name);
+    console.log(`[Local Provider] Creating bare repository ${repoPath}...`);
+
+    try {
+      await fs.access(repoPath);
+    } catch {
+      await fs.mkdir(this.rootPath, { recursive: true });
+      await execFileAsync('git', ['init', '--bare', '--quiet', repoPath]);
+      await execFileAsync('git', ['-C', repoPath, 'symbolic-ref', 'HEAD', 'refs/heads/main']);
+      if (description) {
+        await fs.writeFile(path.join(repoPath, 'description'), `${description}\n`, 'utf-8');
+      }
+
+      const { stdout: commit } = await execFileAsync('git', [
+        '-C', repoPath,
+        '-c', 'user.name=MAKER',
+        '-c', 'user.email=maker@localhost',
+        'commit-tree', EMPTY_TREE, '-m', 'Initial commit'
+      ]);
+      await execFileAsync('git', ['-C', repoPath, 'update-ref', 'refs/heads/main', commit.trim()]);
+    }
+
+    return { owner: LOCAL_OWNER, name, cloneUrl: repoPath };
+  }
+
+  /**
+   * Clones a local repository given as 'local/<name>' or '<name>'.
+   */
+  public async cloneRepo(repo: string, localPath: string): Promise<boolean> {
+    const repoPath = this.repoPath(this.repoName(repo));
+    console.log(`[Local Provider] Cloning ${repoPath} to ${localPath}...`);
+    try {
+      await execFileAsync('git', ['clone', '--quiet', repoPath, localPath]);
+      return true;
+    } catch (error) {
+      console.error(`[Local Provider] Failed to clone ${repo}:`, error);
+      return false;
+    }
+  }
+
+  public async createBranch(localPath: string, branchName: string, baseBranch?: string): Promise<boolean> {
+    return createBranch(localPath, branchName, baseBranch);
+  }
+
+  public async commitAndPush(localPath: string, branch: string, message: string): Promise<string> {
+    return commitAndPush(localPath, branch, message);
+  }
+
+  /**
+   * Records a pull request as a Markdown file and returns its file URL.
+   */
+  public async createPullRequest(localPath: string, title: string, body: string, head: string, base = 'main'): Promise<string> {
+    const { stdout: remote } = await execFileAsync('git', ['-C', localPath, 'remote', 'get-url', 'origin']);
+    const repoName = path.basename(remote.trim()).replace(/\.git$/, '');
+    const requestPath = path.join(this.rootPath, 'pull-requests', repoName, `${head.replace(/[^A-Za-z0-9._-]/g, '-')}.md`);
+
+    console.log(`[Local Provider] Recording pull request for ${head} into ${base}...`);
+    await fs.mkdir(path.dirname(requestPath), { recursive: true });
+    await fs.writeFile(requestPath, `# ${title}\n\nHead: ${head}\nBase: ${base}\n\n${body}\n`, 'utf-8');
+
+    return pathToFileURL(requestPath).href;
+  }
+
+  private repoName(repo: string): string {
+    return repo.startsWith(`${LOCAL_OWNER}/`) ? repo.substring(LOCAL_OWNER.length + 1) : repo;
+  }
+
+  private repoPath(name: string): string {
+    return path.join(this.rootPath, `${name}.git`);
+  }
+}
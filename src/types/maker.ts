@@ -1,4 +1,4 @@
-export type MakerStatus = 'pending' | 'in-progress' | 'completed' | 'failed';
+export type MakerStatus = 'pending' | 'in-progress' | 'completed' | 'failed' | 'blocked';
 export type RedFlagSeverity = 'low' | 'medium' | 'high' | 'critical';
 
 /**
@@ -10,6 +10,12 @@ export interface IMakerTask {
   description: string;
   status: MakerStatus;
   subtasks?: IMakerTask[];
+  /** IDs of sibling tasks that must complete before this one starts. */
+  dependencies?: string[];
+  /** Conditions a result must meet, checked by the verification stage. */
+  acceptanceCriteria?: string[];
+  /** Sampling settings for this task's voting round, over `MakerConfig.sampling`. */
+  sampling?: ISamplingConfig;
   result?: string;
   metadata?: Record<string, any>;
 }
@@ -34,6 +40,8 @@ export interface IVoteResult {
   confidence: number;
   rationale: string;
   votes: Record<number, number>;
+  /** True when the round ran out of time before a candidate won. */
+  timedOut?: boolean;
 }
 
 /**
@@ -41,9 +49,29 @@ export interface IVoteResult {
  */
 export interface MakerConfig {
   maxRecursionDepth: number;
-  votingThreshold: number;
+  /** The margin k of "first-to-ahead-by-k" voting, or 'auto' to derive it from `reliability`. */
+  votingThreshold: number | 'auto';
   redFlagSeverityThreshold: RedFlagSeverity;
   modelName: string;
+  executor?: IExecutorConfig;
+  textExecutor?: IExecutorConfig;
+  delivery?: IDeliveryConfig;
+  issueSync?: IIssueSyncConfig;
+  repoProvider?: IRepoProviderConfig;
+  repoSelection?: IRepoSelectionConfig;
+  cassette?: ICassetteConfig;
+  maxConcurrency?: number;
+  maxInFlightSessions?: number;
+  context?: IContextConfig;
+  composition?: ICompositionConfig;
+  recovery?: IRecoveryConfig;
+  budget?: IBudgetConfig;
+  plugins?: IPluginConfig[];
+  verification?: IVerificationConfig;
+  timeouts?: ITimeoutConfig;
+  canonicalization?: ICanonicalizationConfig;
+  reliability?: IReliabilityConfig;
+  sampling?: ISamplingConfig;
 }
 
 /**
@@ -52,12 +80,475 @@ export interface MakerConfig {
 export interface IDecompositionResult {
   subtasks: string[];
   rationale: string;
+  /** Prerequisites by subtask index, e.g. `{ 2: [0, 1] }`. */
+  dependencies?: Record<number, number[]>;
+  /** Acceptance criteria by subtask index, e.g. `{ 0: ['Parses negative numbers'] }`. */
+  acceptanceCriteria?: Record<number, string[]>;
 }
 
 /**
- * A candidate solution for voting.
+ * A candidate solution for voting. `content` is the first sample of the
+ * candidate; `canonical` is the form samples are compared by and `members`
+ * lists every sample that voted for it.
  */
 export interface IVotingCandidate {
   id: string;
   content: string;
+  canonical?: string;
+  members?: ICandidateMember[];
+}
+
+/**
+ * A sample counted towards a candidate, with the similarity of its canonical
+ * form to the candidate's (1 for an exact match).
+ */
+export interface ICandidateMember {
+  sessionId: string;
+  similarity: number;
+}
+
+export type BuiltinCanonicalizer = 'strip-chatter' | 'final-answer' | 'whitespace' | 'json' | 'typescript';
+
+/**
+ * Maps a sample to the form it is compared by. Must be deterministic.
+ */
+export type Canonicalizer = (content: string) => string;
+
+/**
+ * How samples are grouped into candidates. `canonicalizers` are applied in
+ * order; names are built-ins or canonicalizers added by plugins. Without
+ * `similarityThreshold` samples vote together only when their canonical forms
+ * are identical; with it (0 to 1) a sample joins the most similar candidate
+ * that is at least that similar.
+ */
+export interface ICanonicalizationConfig {
+  canonicalizers?: string[];
+  similarityThreshold?: number;
+}
+
+export type ExecutorType = 'jules' | 'scripted' | 'http' | 'worktree';
+export type ExecutorStatus = 'started' | 'completed' | 'failed' | 'pending' | 'timed-out';
+
+/**
+ * Selects and configures an executor. `executor` draws the samples of minimal
+ * tasks and defaults to Jules; `textExecutor` serves decomposition, composition
+ * and LLM acceptance checks and defaults to the sample executor, or to Jules
+ * when samples come from the worktree executor.
+ */
+export interface IExecutorConfig {
+  type: ExecutorType;
+  fixturePath?: string;
+  baseUrl?: string;
+  apiKeyEnv?: string;
+  temperature?: number;
+  repoPath?: string;
+  agentCommand?: string;
+  worktreeRoot?: string;
+}
+
+/**
+ * Options for starting a single executor session.
+ */
+export interface IExecutorTaskOptions {
+  repoName: string;
+  prompt: string;
+  wait?: boolean;
+  temperature?: number;
+}
+
+/**
+ * Result of starting or polling an executor session.
+ */
+export interface IExecutorResult {
+  sessionId: string;
+  status: ExecutorStatus;
+  consoleLink?: string;
+  output?: string;
+  error?: string;
+}
+
+/**
+ * Backend capable of running MAKER prompts (Jules, scripted fixtures, ...).
+ * Agents only talk to executors through this interface.
+ */
+export interface IMakerExecutor {
+  readonly name: string;
+  start(options: IExecutorTaskOptions): Promise<IExecutorResult>;
+  getStatus(sessionId: string): Promise<IExecutorResult>;
+  cancel(sessionId: string): Promise<void>;
+  fetchOutput(sessionId: string): Promise<string | undefined>;
+}
+
+export type DeliveryMode = 'none' | 'pull-request';
+
+/**
+ * Controls how winning leaf results are delivered to the repository.
+ * In 'pull-request' mode each completed minimal task is committed to a
+ * branch named after its ID in the clone at `localPath` and opened as a PR.
+ */
+export interface IDeliveryConfig {
+  mode: DeliveryMode;
+  localPath: string;
+  baseBranch?: string;
+}
+
+/**
+ * Mirrors the task tree as GitHub issues when enabled.
+ * `repo` defaults to the repository recorded on the root task.
+ */
+export interface IIssueSyncConfig {
+  enabled: boolean;
+  repo?: string;
+}
+
+export type RepoProviderType = 'github' | 'local';
+
+/**
+ * Selects where MAKER creates and pushes repositories.
+ * Defaults to GitHub; 'local' keeps bare repositories under `rootPath`.
+ */
+export interface IRepoProviderConfig {
+  type: RepoProviderType;
+  rootPath?: string;
+}
+
+/**
+ * A repository created or resolved by a repo provider.
+ */
+export interface IRepoInfo {
+  owner: string;
+  name: string;
+  cloneUrl?: string;
+}
+
+/**
+ * A repository returned by a repository search.
+ */
+export interface IRepoSearchResult {
+  owner: string;
+  name: string;
+  description?: string;
+  stars: number;
+  url: string;
+}
+
+export type RepoSelectionMode = 'create' | 'search';
+
+/**
+ * Controls how the run's repository context is chosen.
+ * In 'search' mode the best existing match for `query` (default: the idea)
+ * with at least `minStars` stars is used, falling back to creating a repo.
+ */
+export interface IRepoSelectionConfig {
+  mode: RepoSelectionMode;
+  query?: string;
+  minStars?: number;
+}
+
+/**
+ * Hosting backend for repositories: create, clone, branch, push and open PRs.
+ * Providers that can search existing repositories implement `searchRepositories`.
+ */
+export interface IRepoProvider {
+  readonly name: string;
+  createRepo(name: string, description?: string): Promise<IRepoInfo>;
+  searchRepositories?(query: string, limit?: number): Promise<IRepoSearchResult[]>;
+  cloneRepo(repo: string, localPath: string): Promise<boolean>;
+  createBranch(localPath: string, branchName: string, baseBranch?: string): Promise<boolean>;
+  commitAndPush(localPath: string, branch: string, message: string): Promise<string>;
+  createPullRequest(localPath: string, title: string, body: string, head: string, base?: string): Promise<string>;
+}
+
+/**
+ * Records every Jules and GitHub bridge invocation to `path`, or replays a
+ * previous recording from it, so runs can be reproduced deterministically.
+ */
+export interface ICassetteConfig {
+  mode: 'record' | 'replay';
+  path: string;
+}
+
+export type ContextTruncation = 'drop-oldest' | 'even';
+
+/**
+ * Bounds the context bundle (root goal, ancestor chain and upstream results)
+ * sent with each voting prompt. `maxChars: 0` sends only the task description.
+ */
+export interface IContextConfig {
+  maxChars?: number;
+  truncation?: ContextTruncation;
+}
+
+export type CompositionMode = 'llm' | 'concatenate';
+
+/**
+ * Selects how a parent's result is built from its subtasks' results.
+ * Defaults to 'concatenate'; 'llm' votes on composed results and falls back
+ * to concatenation when no composition wins.
+ */
+export interface ICompositionConfig {
+  mode: CompositionMode;
+}
+
+export type RecoveryStrategy = 'retry' | 'redecompose' | 'escalate';
+
+/**
+ * Recovery policy for leaves whose voting produced no winner. The strategies
+ * are tried in order until the task completes; a task can override them with
+ * `metadata.recovery`. `maxAttempts` caps recovery attempts per run (default 5).
+ */
+export interface IRecoveryConfig {
+  strategies: RecoveryStrategy[];
+  maxAttempts?: number;
+}
+
+/**
+ * One recovery attempt, as recorded in `metadata.recoveryAttempts`.
+ */
+export interface IRecoveryAttempt {
+  strategy: RecoveryStrategy;
+  startedAt: string;
+  outcome: MakerStatus;
+  detail?: string;
+}
+
+export type SamplingMode = 'fixed' | 'adaptive';
+
+/**
+ * How a voting round draws samples. Each round launches up to `batchSize`
+ * samples at once, for at most `maxRounds` batches. In 'adaptive' mode a batch
+ * only launches as many samples as the leader still needs to get ahead by k.
+ * Running samples are polled every `pollIntervalSeconds`, growing by
+ * `backoffFactor` after each poll up to `maxPollIntervalSeconds`.
+ */
+export interface ISamplingConfig {
+  mode?: SamplingMode;
+  batchSize?: number;
+  maxRounds?: number;
+  pollIntervalSeconds?: number;
+  backoffFactor?: number;
+  maxPollIntervalSeconds?: number;
+}
+
+/**
+ * Settings for `votingThreshold: 'auto'`. k is the smallest margin for which
+ * every voting step of the tree succeeding has at least `target` probability,
+ * given the per-sample accuracy estimated so far in the run. The estimate
+ * starts at `priorAccuracy`, weighted as `priorWeight` samples.
+ */
+export interface IReliabilityConfig {
+  target?: number;
+  priorAccuracy?: number;
+  priorWeight?: number;
+  minK?: number;
+  maxK?: number;
+}
+
+/**
+ * The margin chosen for one voting round, as recorded in `metadata.reliability`.
+ */
+export interface IReliabilityEstimate {
+  k: number;
+  /** Estimated probability that a sample is correct. */
+  accuracy: number;
+  /** Voting steps in the tree when k was chosen. */
+  steps: number;
+  target: number;
+  /** Probability that all steps succeed with this k and accuracy. */
+  predictedSuccess: number;
+}
+
+/**
+ * Limits for a whole run. Sessions count every executor session started for
+ * decomposition, voting and composition; tokens are estimated from prompt and
+ * output length. When a limit is hit the run stops and can be resumed.
+ */
+export interface IBudgetConfig {
+  maxSessions?: number;
+  maxTokens?: number;
+  maxWallClockSeconds?: number;
+}
+
+export type BudgetLimit = 'sessions' | 'tokens' | 'wall-clock';
+
+/**
+ * What a run consumed, saved as `metadata.costSummary` in the state file.
+ */
+export interface IRunCostSummary {
+  sessions: number;
+  estimatedTokens: number;
+  elapsedSeconds: number;
+  stoppedBy?: BudgetLimit | 'cancelled' | 'deadline';
+}
+
+export type TimeoutPhase = 'decomposition' | 'sample' | 'voting-round' | 'aggregation';
+
+/**
+ * Time limits in seconds. A decomposition that times out falls back like any
+ * failed decomposition; unfinished samples are cancelled (default 60s per
+ * batch); a voting round or composition that times out ends without a winner.
+ * `runSeconds` is a hard deadline for the whole run: in-flight sessions are
+ * cancelled and the state is saved for `maker resume`.
+ */
+export interface ITimeoutConfig {
+  decompositionSeconds?: number;
+  sampleSeconds?: number;
+  votingRoundSeconds?: number;
+  aggregationSeconds?: number;
+  runSeconds?: number;
+}
+
+/**
+ * A timeout hit while working on a task, as recorded in `metadata.timeouts`.
+ */
+export interface ITimeoutRecord {
+  phase: TimeoutPhase;
+  seconds: number;
+  at: string;
+  detail?: string;
+}
+
+/**
+ * What happened to the samples of a voting round, saved as `metadata.sampleStats`.
+ * Timed-out samples are counted apart from samples the executor reported as failed.
+ */
+export interface ISampleStats {
+  samples: number;
+  votes: number;
+  redFlagged: number;
+  failed: number;
+  timedOut: number;
+}
+
+/**
+ * Options for a single `runMaker` or `resumeMaker` call.
+ */
+export interface IRunOptions {
+  /** Aborting the signal stops the run and cancels outstanding executor sessions. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Checks a leading candidate must pass before it wins a vote. Each command
+ * runs in a throwaway worktree of `repoPath` with the candidate's patch
+ * applied, or in `repoPath` (default: the working directory) with the
+ * candidate on stdin when it is not a patch. With `llm`, an executor session
+ * also judges the candidate against the task's acceptance criteria.
+ */
+export interface IVerificationConfig {
+  commands?: string[];
+  repoPath?: string;
+  llm?: boolean;
+  timeoutSeconds?: number;
+}
+
+/**
+ * Outcome of one verification check.
+ */
+export interface IVerificationCheck {
+  name: string;
+  passed: boolean;
+  output?: string;
+}
+
+/**
+ * Outcome of verifying a candidate, stored as `metadata.verification` on the
+ * task for the winner and in `metadata.rejectedCandidates` for the others.
+ */
+export interface IVerificationResult {
+  passed: boolean;
+  checks: IVerificationCheck[];
+}
+
+/**
+ * Lifecycle events emitted by `MakerOrchestrator.events`, keyed by name.
+ * Sample and vote events also fire while composing parent results.
+ */
+export interface MakerEventMap {
+  'run:started': { root: IMakerTask; config: MakerConfig; resumed: boolean };
+  'run:finished': { root: IMakerTask; costSummary: IRunCostSummary };
+  'task:decomposed': { task: IMakerTask; subtasks: IMakerTask[] };
+  'sample:received': { task: IMakerTask; result: IExecutorResult };
+  'sample:red-flagged': { task: IMakerTask; result: IExecutorResult; reason?: string };
+  'candidate:rejected': { task: IMakerTask; candidate: IVotingCandidate; verification: IVerificationResult };
+  'vote:cast': { task: IMakerTask; candidate: IVotingCandidate; votes: number };
+  'winner:chosen': { task: IMakerTask; candidate: IVotingCandidate; votes: number; source: 'vote' | 'user' };
+  'task:completed': { task: IMakerTask };
+  'task:failed': { task: IMakerTask };
+  'state:saved': { root: IMakerTask };
+}
+
+export type MakerEventName = keyof MakerEventMap;
+export type MakerEventHandler<E extends MakerEventName> = (payload: MakerEventMap[E]) => void | Promise<void>;
+
+/**
+ * What a hook returns: `value` replaces the hooked value for later plugins and
+ * the run, `veto` stops the step with a reason. Returning nothing leaves it as is.
+ */
+export interface IHookResult<T> {
+  value?: T;
+  veto?: string;
+}
+
+export type PluginHook<T> = (task: IMakerTask, value: T) => IHookResult<T> | void | Promise<IHookResult<T> | void>;
+
+/**
+ * Points where plugins can veto or change what the orchestrator is about to do.
+ * - `afterDecomposition`: a veto runs the task as a minimal task instead.
+ * - `beforeVote`: the prompt sent to the executor; a veto fails the task.
+ * - `beforeAccept`: the winning result; a veto fails the task, so recovery applies.
+ * - `beforeDelivery`: the result about to be opened as a PR; a veto skips delivery.
+ */
+export interface IMakerHooks {
+  afterDecomposition?: PluginHook<IDecompositionResult>;
+  beforeVote?: PluginHook<string>;
+  beforeAccept?: PluginHook<string>;
+  beforeDelivery?: PluginHook<string>;
+}
+
+export type MakerHookName = keyof IMakerHooks;
+
+/**
+ * Extends a run without forking the orchestrator. `events` handlers observe the
+ * run; `hooks` run in plugin order and may veto or change a step.
+ */
+export interface IMakerPlugin {
+  readonly name: string;
+  events?: { [E in MakerEventName]?: MakerEventHandler<E> };
+  hooks?: IMakerHooks;
+  /** Named canonicalizers that `canonicalization.canonicalizers` may refer to. */
+  canonicalizers?: Record<string, Canonicalizer>;
+}
+
+/**
+ * A plugin module to load for each run. `module` is a path (relative to the
+ * working directory) or package name whose default export is an `IMakerPlugin`
+ * or a function that receives `options` and returns one.
+ */
+export interface IPluginConfig {
+  module: string;
+  options?: Record<string, any>;
+}
+
+/**
+ * Per-call options for a voting round.
+ */
+export interface IVotingOptions {
+  /** Prompt sent to the executor instead of the bare task description. */
+  prompt?: string;
+  /** Time limit in seconds for the whole round. Unlimited when omitted. */
+  timeoutSeconds?: number;
+  /** Executor that draws the samples instead of the agent's own, e.g. the text executor for compositions. */
+  executor?: IMakerExecutor;
+  /** Ends a round without a winner instead of asking the user to pick a candidate. */
+  skipVeto?: boolean;
+  /** Temperature of every sample after the first instead of `executor.temperature`. */
+  temperature?: number;
+  /** Key of `task.metadata` to record the round under instead of its top level, e.g. 'composition'. */
+  metadataKey?: string;
+  /**
+   * Called for each leading candidate with the time left in the round, if limited;
+   * a failed result rejects it and sampling continues.
+   */
+  verify?: (content: string, timeoutSeconds?: number) => Promise<IVerificationResult>;
 }
@@ -0,0 +1,39 @@
+/**
+ * Switches that never take a value, so the token after them is read as the
+ * next argument even when it does not start with `--`.
+ */
+export const BOOLEAN_FLAGS = new Set(['adaptive-sampling', 'verify-llm']);
+
+/**
+ * Command-line arguments split into `--key value` options and positional arguments.
+ */
+export interface IParsedArgs {
+  params: Record<string, string>;
+  positionalArgs: string[];
+}
+
+/**
+ * Parses command-line arguments. An option takes the following token as its
+ * value unless it is a boolean flag or the token is another option; options
+ * without a value are set to 'true'.
+ */
+export function parseArgs(args: string[]): IParsedArgs {
+  const params: Record<string, string> = {};
+  const positionalArgs: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      const key = args[i].substring(2);
+      const value = args[i + 1];
+      if (!BOOLEAN_FLAGS.has(key) && value && !value.startsWith('--')) {
+        params[key] = value;
+        i++;
+      } else {
+        params[key] = 'true';
+      }
+    } else {
+      positionalArgs.push(args[i]);
+    }
+  }
+  return { params, positionalArgs };
+}
@@ -0,0 +1,85 @@
+import { IBudgetConfig, BudgetLimit, IRunCostSummary } from '../types/maker.js';
+
+/**
+ * Thrown when starting more work would exceed a run budget.
+ * Agents let it propagate so the orchestrator can stop the run cleanly.
+ */
+export class BudgetExceededError extends Error {
+  constructor(public readonly limit: BudgetLimit, message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Rough token estimate: about four characters per token.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Tracks executor sessions, estimated tokens and elapsed time for one run.
+ */
+export class RunBudget {
+  private sessions = 0;
+  private tokens = 0;
+  private readonly startedAt: number;
+
+  constructor(private readonly config: IBudgetConfig = {}, now: number = Date.now()) {
+    this.startedAt = now;
+  }
+
+  /**
+   * Throws if the token or wall-clock budget is already spent.
+   */
+  public check(): void {
+    const { maxTokens, maxWallClockSeconds } = this.config;
+    if (maxWallClockSeconds !== undefined && this.elapsedSeconds() >= maxWallClockSeconds) {
+      throw new BudgetExceededError('wall-clock', `Wall-clock budget of ${maxWallClockSeconds}s is spent.`);
+    }
+    if (maxTokens !== undefined && this.tokens >= maxTokens) {
+      throw new BudgetExceededError('tokens', `Token budget of ${maxTokens} is spent (~${this.tokens} used).`);
+    }
+  }
+
+  /**
+   * Reserves `count` executor sessions, or throws if any budget would be exceeded.
+   */
+  public reserveSessions(count = 1): void {
+    this.check();
+    const { maxSessions } = this.config;
+    if (maxSessions !== undefined && this.sessions + count > maxSessions) {
+      throw new BudgetExceededError(
+        'sessions',
+        `Session budget of ${maxSessions} does not allow ${count} more (${this.sessions} used).`
+      );
+    }
+    this.sessions += count;
+  }
+
+  /**
+   * Adds the estimated tokens of a prompt or output.
+   */
+  public recordText(text: string | undefined): void {
+    if (text) {
+      this.tokens += estimateTokens(text);
+    }
+  }
+
+  /**
+   * Returns what the run has consumed so far.
+   */
+  public summary(stoppedBy?: IRunCostSummary['stoppedBy']): IRunCostSummary {
+    return {
+      sessions: this.sessions,
+      estimatedTokens: this.tokens,
+      elapsedSeconds: Math.round(this.elapsedSeconds()),
+      ...(stoppedBy ? { stoppedBy } : {})
+    };
+  }
+
+  private elapsedSeconds(): number {
+    return (Date.now() - this.startedAt) / 1000;
+  }
+}
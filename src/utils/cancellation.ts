@@ -0,0 +1,40 @@
+/**
+ * Thrown when a run is cancelled through its AbortSignal.
+ * Agents let it propagate so the orchestrator can stop the run cleanly.
+ */
+export class RunCancelledError extends Error {
+  constructor(message = 'The run was cancelled.') {
+    super(message);
+    this.name = 'RunCancelledError';
+  }
+}
+
+/**
+ * Throws RunCancelledError if the signal has been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal | null): void {
+  if (signal?.aborted) {
+    throw new RunCancelledError();
+  }
+}
+
+/**
+ * Waits for `ms` milliseconds, returning early if the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,226 @@
+import { BuiltinCanonicalizer, Canonicalizer, ICanonicalizationConfig, IVotingCandidate } from '../types/maker.js';
+
+/** Lines executors print around the answer: `Key: value` status lines, timestamps and log tags. */
+const CHATTER_LINE = /^\s*(?:(?:session(?: id| started)?|status|state|link|console|url|pr|pull request)\s*:|\[?\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}|\[(?:jules|info|debug|warn|warning|log|trace)\])/i;
+const OUTPUT_LABEL = /^\s*(?:output|result)\s*:\s*/i;
+const FENCE = /^\s*```/;
+const CODE_BLOCK = /```([\w+-]*)[^\n]*\n([\s\S]*?)```/g;
+const SCRIPT_LANGUAGES = new Set(['ts', 'typescript', 'tsx', 'js', 'javascript', 'jsx', 'mjs', 'cjs']);
+
+/**
+ * Drops executor log lines and `Output:` labels outside code blocks.
+ */
+function stripChatter(content: string): string {
+  let inFence = false;
+  const lines: string[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence && CHATTER_LINE.test(line)) {
+      continue;
+    }
+    lines.push(inFence ? line : line.replace(OUTPUT_LABEL, ''));
+  }
+  return lines.join('\n').trim();
+}
+
+/**
+ * Keeps only the last code block or, without one, the text after the last
+ * `Final answer:` or `Answer:` line.
+ */
+function finalAnswer(content: string): string {
+  const blocks = [...content.matchAll(CODE_BLOCK)];
+  if (blocks.length > 0) {
+    return blocks[blocks.length - 1][2].trim();
+  }
+  const markers = [...content.matchAll(/^\s*(?:final answer|answer)\s*:\s*/gim)];
+  if (markers.length > 0) {
+    const last = markers[markers.length - 1];
+    return content.substring(last.index! + last[0].length).trim();
+  }
+  return content.trim();
+}
+
+/**
+ * Normalizes line endings, trailing spaces, runs of spaces inside a line and blank lines.
+ */
+function normalizeWhitespace(content: string): string {
+  return content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/\s+$/, '').replace(/(\S)[ \t]+(?=\S)/g, '$1 '))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Reprints JSON with sorted keys and no formatting, either the whole content
+ * or each `json` code block. Text that does not parse is left alone.
+ */
+function normalizeJson(content: string): string {
+  const reprint = (text: string): string | null => {
+    try {
+      return JSON.stringify(sortKeys(JSON.parse(text)));
+    } catch {
+      return null;
+    }
+  };
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return reprint(trimmed) ?? content;
+  }
+  return content.replace(CODE_BLOCK, (block, language: string, body: string) =>
+    language.toLowerCase() === 'json' ? `\`\`\`json\n${reprint(body) ?? body.trim()}\n\`\`\`` : block);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])]));
+  }
+  return value;
+}
+
+/**
+ * Reprints TypeScript and JavaScript code blocks (or the whole content when it
+ * has no code blocks) token by token, so that comments, formatting, quote
+ * style, semicolons and trailing commas no longer tell samples apart.
+ */
+function normalizeTypeScript(content: string): string {
+  if (!content.includes('```')) {
+    return reprintTokens(content);
+  }
+  return content.replace(CODE_BLOCK, (block, language: string, body: string) =>
+    SCRIPT_LANGUAGES.has(language.toLowerCase()) ? `\`\`\`${language}\n${reprintTokens(body)}\n\`\`\`` : block);
+}
+
+/**
+ * Splits code into tokens without comments and joins them with single spaces.
+ * Single-quoted strings are rewritten with double quotes. This is a lexical
+ * normalization: regular expression literals are read as punctuation.
+ */
+function reprintTokens(code: string): string {
+  const tokens: string[] = [];
+  const pattern = /\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`|[A-Za-z_$][\w$]*|\d[\w.]*|=>|===|!==|==|!=|<=|>=|&&|\|\||\?\?|\?\.|\.\.\.|\S/g;
+  for (const [token] of code.matchAll(pattern)) {
+    if (token.startsWith('//') || token.startsWith('/*')) continue;
+    if (token.startsWith("'")) {
+      const inner = token.slice(1, -1).replace(/\\'/g, "'").replace(/(^|[^\\])"/g, '$1\\"');
+      tokens.push(`"${inner}"`);
+    } else {
+      tokens.push(token);
+    }
+  }
+  return tokens
+    .filter((token, index) => token !== ';' && !(token === ',' && /^[}\])]$/.test(tokens[index + 1] ?? '')))
+    .join(' ');
+}
+
+/**
+ * The canonicalizers available by name in `canonicalization.canonicalizers`.
+ */
+export const BUILTIN_CANONICALIZERS: Record<BuiltinCanonicalizer, Canonicalizer> = {
+  'strip-chatter': stripChatter,
+  'final-answer': finalAnswer,
+  'whitespace': normalizeWhitespace,
+  'json': normalizeJson,
+  'typescript': normalizeTypeScript
+};
+
+/**
+ * Chains the named canonicalizers. Samples are always trimmed.
+ *
+ * @throws Error if a name is neither built in nor in `custom`.
+ */
+export function createCanonicalizer(names: string[] = [], custom: Record<string, Canonicalizer> = {}): Canonicalizer {
+  const steps = names.map(name => {
+    const step = custom[name] ?? BUILTIN_CANONICALIZERS[name as BuiltinCanonicalizer];
+    if (!step) {
+      throw new Error(`Unknown canonicalizer "${name}".`);
+    }
+    return step;
+  });
+  return content => steps.reduce((current, step) => step(current), content).trim();
+}
+
+/**
+ * Dice similarity of the word and symbol tokens of two texts: 1 for the same
+ * tokens in any order, 0 for no tokens in common.
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const count = (text: string) => {
+    const counts = new Map<string, number>();
+    for (const [token] of text.matchAll(/\w+|[^\s\w]/g)) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+    return counts;
+  };
+  const left = count(a);
+  const right = count(b);
+  let shared = 0;
+  let total = 0;
+  for (const [token, n] of left) {
+    shared += Math.min(n, right.get(token) || 0);
+    total += n;
+  }
+  for (const n of right.values()) {
+    total += n;
+  }
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/**
+ * Groups the samples of one voting round into candidates.
+ */
+export class CandidatePool {
+  public readonly candidates: IVotingCandidate[] = [];
+  private readonly canonicalize: Canonicalizer;
+  private readonly byCanonical = new Map<string, number>();
+
+  constructor(private readonly config: ICanonicalizationConfig = {}, custom: Record<string, Canonicalizer> = {}) {
+    this.canonicalize = createCanonicalizer(config.canonicalizers, custom);
+  }
+
+  /**
+   * Adds a sample to the candidate it matches, or to a new candidate.
+   *
+   * @returns The candidate's index and whether the sample created it.
+   */
+  public assign(content: string, sessionId: string): { index: number; isNew: boolean } {
+    const canonical = this.canonicalize(content);
+    const match = this.findMatch(canonical);
+    if (match) {
+      this.candidates[match.index].members!.push({ sessionId, similarity: match.similarity });
+      return { index: match.index, isNew: false };
+    }
+
+    const index = this.candidates.length;
+    this.candidates.push({ id: `candidate-${index}`, content: content.trim(), canonical, members: [{ sessionId, similarity: 1 }] });
+    this.byCanonical.set(canonical, index);
+    return { index, isNew: true };
+  }
+
+  private findMatch(canonical: string): { index: number; similarity: number } | null {
+    const exact = this.byCanonical.get(canonical);
+    if (exact !== undefined) {
+      return { index: exact, similarity: 1 };
+    }
+    const threshold = this.config.similarityThreshold;
+    if (threshold === undefined) {
+      return null;
+    }
+
+    let best: { index: number; similarity: number } | null = null;
+    for (const [index, candidate] of this.candidates.entries()) {
+      const score = similarity(canonical, candidate.canonical!);
+      if (score >= threshold && (!best || score > best.similarity)) {
+        best = { index, similarity: score };
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Counting semaphore with FIFO ordering.
+ * Multi-permit acquisitions are all-or-nothing, so a caller that needs several
+ * permits never holds some of them while waiting for the rest.
+ */
+export class Semaphore {
+  private available: number;
+  private waiters: Array<{ count: number; resolve: () => void }> = [];
+
+  constructor(public readonly limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Semaphore limit must be a positive integer, got ${limit}.`);
+    }
+    this.available = limit;
+  }
+
+  /**
+   * Waits until `count` permits are available and takes them.
+   */
+  public acquire(count = 1): Promise<void> {
+    if (count > this.limit) {
+      return Promise.reject(new Error(`Cannot acquire ${count} permits from a semaphore of ${this.limit}.`));
+    }
+    if (this.waiters.length === 0 && this.available >= count) {
+      this.available -= count;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiters.push({ count, resolve }));
+  }
+
+  /**
+   * Returns `count` permits and wakes waiters in order.
+   */
+  public release(count = 1): void {
+    this.available = Math.min(this.limit, this.available + count);
+    while (this.waiters.length > 0 && this.available >= this.waiters[0].count) {
+      const waiter = this.waiters.shift()!;
+      this.available -= waiter.count;
+      waiter.resolve();
+    }
+  }
+
+  /**
+   * Runs `operation` while holding `count` permits.
+   */
+  public async run<T>(operation: () => Promise<T>, count = 1): Promise<T> {
+    await this.acquire(count);
+    try {
+      return await operation();
+    } finally {
+      this.release(count);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { IMakerTask, IContextConfig, ContextTruncation } from '../types/maker.js';
+import { TaskTreeManager } from './task-tree.js';
+
+export const DEFAULT_CONTEXT_MAX_CHARS = 4000;
+
+// Room kept for the "[... N more characters]" marker when text is cut.
+const TRUNCATION_MARKER_RESERVE = 40;
+const RESULTS_HEADING = '\n\n## Results of earlier tasks\n';
+const BLOCK_SEPARATOR = '\n\n';
+
+/**
+ * Context bundle for a single task prompt.
+ */
+export interface ITaskContext {
+  text: string;
+  /** IDs of the upstream tasks whose results are included. */
+  sources: string[];
+  truncated: boolean;
+}
+
+/**
+ * Cuts `text` to roughly `maxChars`, keeping its beginning.
+ */
+export function truncateText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  const keep = Math.max(0, maxChars - TRUNCATION_MARKER_RESERVE);
+  return `${text.slice(0, keep)}\n[... ${text.length - keep} more characters]`;
+}
+
+/**
+ * Collects completed upstream tasks, nearest first. At every level of the path
+ * from the task to the root, upstream means the declared prerequisites when the
+ * siblings use dependencies, and the earlier siblings otherwise.
+ */
+function collectUpstream(task: IMakerTask, root: IMakerTask, tree: TaskTreeManager): IMakerTask[] {
+  const upstream: IMakerTask[] = [];
+  let node = task;
+  let parent = tree.findParent(root, node.id);
+
+  while (parent) {
+    const siblings = parent.subtasks!;
+    const usesDependencies = siblings.some(sibling => sibling.dependencies?.length);
+    const candidates = usesDependencies
+      ? siblings.filter(sibling => node.dependencies?.includes(sibling.id))
+      : siblings.slice(0, siblings.indexOf(node));
+
+    upstream.push(...candidates.filter(sibling => sibling.status === 'completed' && sibling.result).reverse());
+    node = parent;
+    parent = tree.findParent(root, node.id);
+  }
+
+  return upstream;
+}
+
+/**
+ * Fits blocks of text, nearest first, into `budget` characters when joined by
+ * blank lines. With 'drop-oldest' the nearest blocks are kept whole and the one
+ * that crosses the budget is cut; with 'even' every block gets an equal share.
+ *
+ * @returns The kept blocks with their indices, nearest first, and whether anything was cut.
+ */
+export function fitBlocks(
+  blocks: string[],
+  budget: number,
+  truncation: ContextTruncation = 'drop-oldest'
+): { selected: Array<{ index: number; block: string }>; truncated: boolean } {
+  const selected: Array<{ index: number; block: string }> = [];
+  let truncated = false;
+
+  if (truncation === 'even') {
+    const share = Math.floor(budget / Math.max(1, blocks.length)) - BLOCK_SEPARATOR.length;
+    blocks.forEach((block, index) => {
+      if (share <= TRUNCATION_MARKER_RESERVE) {
+        truncated = true;
+        return;
+      }
+      const bounded = truncateText(block, share);
+      truncated = truncated || bounded !== block;
+      selected.push({ index, block: bounded });
+    });
+  } else {
+    let remaining = budget;
+    for (let index = 0; index < blocks.length; index++) {
+      remaining -= index > 0 ? BLOCK_SEPARATOR.length : 0;
+      if (blocks[index].length <= remaining) {
+        selected.push({ index, block: blocks[index] });
+        remaining -= blocks[index].length;
+        continue;
+      }
+      truncated = true;
+      if (remaining > TRUNCATION_MARKER_RESERVE) {
+        selected.push({ index, block: truncateText(blocks[index], remaining) });
+      }
+      break;
+    }
+  }
+
+  return { selected, truncated };
+}
+
+/**
+ * Builds the context bundle for a task: the root goal, the chain of ancestor
+ * descriptions and the winning results of upstream tasks, within the budget.
+ */
+export function buildTaskContext(
+  task: IMakerTask,
+  root: IMakerTask,
+  tree: TaskTreeManager,
+  config: IContextConfig = {}
+): ITaskContext {
+  const maxChars = config.maxChars ?? DEFAULT_CONTEXT_MAX_CHARS;
+  if (task.id === root.id || maxChars <= 0) {
+    return { text: '', sources: [], truncated: false };
+  }
+
+  const ancestors: IMakerTask[] = [];
+  for (let parent = tree.findParent(root, task.id); parent && parent.id !== root.id; parent = tree.findParent(root, parent.id)) {
+    ancestors.unshift(parent);
+  }
+
+  let header = `## Overall goal\n${root.description}`;
+  if (ancestors.length > 0) {
+    header += `\n\n## Parent tasks\n${ancestors.map((ancestor, i) => `${i + 1}. ${ancestor.description}`).join('\n')}`;
+  }
+  const boundedHeader = truncateText(header, maxChars);
+  let truncated = boundedHeader !== header;
+  let remaining = maxChars - boundedHeader.length;
+
+  const upstream = collectUpstream(task, root, tree);
+  const blocks = upstream.map(source => `### ${source.description}\n${source.result}`);
+  if (blocks.length > 0) {
+    remaining -= RESULTS_HEADING.length;
+  }
+  const fitted = fitBlocks(blocks, remaining, config.truncation);
+  truncated = truncated || fitted.truncated;
+  const selected = fitted.selected.map(entry => ({ id: upstream[entry.index].id, block: entry.block }));
+
+  let text = boundedHeader;
+  if (selected.length > 0) {
+    // Render oldest first so the results read in the order they were produced.
+    text += `${RESULTS_HEADING}${selected.map(entry => entry.block).reverse().join(BLOCK_SEPARATOR)}`;
+  }
+
+  return { text, sources: selected.map(entry => entry.id).reverse(), truncated };
+}
+
+/**
+ * Prefixes the task description with its context bundle, if any, and appends
+ * the task's acceptance criteria and guidance the user gave when the task was escalated.
+ */
+export function buildTaskPrompt(task: IMakerTask, context: ITaskContext): string {
+  let prompt = context.text ? `${context.text}\n\n## Your task\n${task.description}` : task.description;
+  if (task.acceptanceCriteria && task.acceptanceCriteria.length > 0) {
+    prompt += `\n\n## Acceptance criteria\n${task.acceptanceCriteria.map(criterion => `- ${criterion}`).join('\n')}`;
+  }
+  if (task.metadata?.userGuidance) {
+    prompt += `\n\n## Guidance from the user\n${task.metadata.userGuidance}`;
+  }
+  return prompt;
+}
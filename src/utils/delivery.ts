@@ -0,0 +1,120 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { IMakerTask, IVoteResult, IDeliveryConfig, IRepoProvider } from '../types/maker.js';
+import { applyPatch } from '../bridges/github.js';
+
+/**
+ * Extracts a unified diff from a candidate, if the candidate is one.
+ * Diffs produced by the worktree executor are wrapped in a ```diff fence.
+ */
+export function extractPatch(content: string): string | null {
+  const fenced = content.match(/```(?:diff|patch)\n([\s\S]*?)\n```/);
+  if (fenced) {
+    return fenced[1];
+  }
+  return /^diff --git /m.test(content) ? content : null;
+}
+
+/**
+ * Builds the pull request body for a delivered task.
+ */
+export function buildPullRequestBody(task: IMakerTask, voteResult: IVoteResult): string {
+  const voteLines = Object.entries(voteResult.votes)
+    .map(([index, count]) => `| ${Number(index) === voteResult.winnerIndex ? `**${index}**` : index} | ${count} |`);
+
+  return [
+    `## Task`,
+    '',
+    task.description,
+    '',
+    `Task ID: \`${task.id}\``,
+    '',
+    `## Voting`,
+    '',
+    '| Candidate | Votes |',
+    '| :--- | :--- |',
+    ...voteLines,
+    '',
+    `Confidence: ${(voteResult.confidence * 100).toFixed(0)}%`,
+    '',
+    voteResult.rationale,
+    '',
+    '_Generated by the MAKER framework._'
+  ].join('\n');
+}
+
+/**
+ * Commits the winning candidate of a completed minimal task to a branch named
+ * after the task ID and opens a pull request for it. The PR URL is stored in
+ * `task.metadata.pullRequestUrl`; failures are recorded in
+ * `task.metadata.deliveryError` and never fail the task itself.
+ *
+ * @param task - The completed minimal task.
+ * @param voteResult - The voting result that selected the winner.
+ * @param config - Delivery configuration.
+ * @param provider - Repo provider used to clone, branch, push and open the PR.
+ * @returns A promise that resolves to the PR URL, or null if delivery failed.
+ */
+export async function deliverTaskResult(
+  task: IMakerTask,
+  voteResult: IVoteResult,
+  config: IDeliveryConfig,
+  provider: IRepoProvider
+): Promise<string | null> {
+  const repoName = task.metadata?.repoName;
+  const baseBranch = config.baseBranch || 'main';
+  const branch = `maker/${task.id}`;
+
+  try {
+    if (task.result === undefined) {
+      throw new Error('Task has no result to deliver.');
+    }
+
+    await ensureClone(provider, config.localPath, repoName);
+
+    if (!(await provider.createBranch(config.localPath, branch, baseBranch))) {
+      throw new Error(`Could not create branch ${branch}.`);
+    }
+
+    const patch = extractPatch(task.result);
+    if (patch) {
+      if (!(await applyPatch(config.localPath, patch))) {
+        throw new Error('Winning patch did not apply cleanly.');
+      }
+    } else {
+      const resultPath = path.join(config.localPath, 'maker', `${task.id}.md`);
+      await fs.mkdir(path.dirname(resultPath), { recursive: true });
+      await fs.writeFile(resultPath, `# ${task.description}\n\n${task.result}\n`, 'utf-8');
+    }
+
+    await provider.commitAndPush(config.localPath, branch, `MAKER: ${task.description}`);
+    const url = await provider.createPullRequest(
+      config.localPath,
+      `MAKER: ${task.description}`.substring(0, 100),
+      buildPullRequestBody(task, voteResult),
+      branch,
+      baseBranch
+    );
+
+    task.metadata = { ...task.metadata, deliveryBranch: branch, pullRequestUrl: url };
+    console.log(`[Delivery] Opened ${url} for task ${task.id}.`);
+    return url;
+  } catch (error: any) {
+    console.warn(`[Delivery] Failed to deliver task ${task.id}: ${error.message}`);
+    task.metadata = { ...task.metadata, deliveryBranch: branch, deliveryError: error.message };
+    return null;
+  }
+}
+
+/**
+ * Clones the task repository into `localPath` unless a clone is already present.
+ */
+async function ensureClone(provider: IRepoProvider, localPath: string, repoName?: string): Promise<void> {
+  try {
+    await fs.access(path.join(localPath, '.git'));
+  } catch {
+    if (!repoName || !(await provider.cloneRepo(repoName, localPath))) {
+      throw new Error(`No local clone at ${localPath} and no repository to clone.`);
+    }
+  }
+}
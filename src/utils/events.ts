@@ -0,0 +1,39 @@
+import { MakerEventMap, MakerEventName, MakerEventHandler } from '../types/maker.js';
+
+/**
+ * Typed publish/subscribe bus for run lifecycle events.
+ * Handlers run in subscription order and are awaited; a handler that throws is
+ * logged and skipped so observers can never fail a run.
+ */
+export class MakerEventBus {
+  private handlers = new Map<MakerEventName, Array<MakerEventHandler<any>>>();
+
+  /**
+   * Subscribes to an event. Returns a function that removes the subscription.
+   */
+  public on<E extends MakerEventName>(event: E, handler: MakerEventHandler<E>): () => void {
+    this.handlers.set(event, [...(this.handlers.get(event) || []), handler]);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Removes a subscription added with `on`.
+   */
+  public off<E extends MakerEventName>(event: E, handler: MakerEventHandler<E>): void {
+    const remaining = (this.handlers.get(event) || []).filter(existing => existing !== handler);
+    this.handlers.set(event, remaining);
+  }
+
+  /**
+   * Delivers an event to every current subscriber.
+   */
+  public async emit<E extends MakerEventName>(event: E, payload: MakerEventMap[E]): Promise<void> {
+    for (const handler of this.handlers.get(event) || []) {
+      try {
+        await handler(payload);
+      } catch (error: any) {
+        console.warn(`[Events] Handler for '${event}' failed: ${error.message}`);
+      }
+    }
+  }
+}
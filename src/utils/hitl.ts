@@ -95,3 +95,53 @@ export async function askUserVeto(task: IMakerTask, candidates: IVotingCandidate
   // Ensure the index is within the original candidates range
   return selectedIndex !== -1 && selectedIndex < candidates.length ? selectedIndex : null;
 }
+
+/**
+ * The user's decision about a task that could not be completed automatically.
+ */
+export interface IEscalationResponse {
+  action: 'result' | 'guidance' | 'fail';
+  text?: string;
+}
+
+/**
+ * Escalates a failed task to the user, who can supply the result directly,
+ * give guidance for another attempt, or leave the task failed.
+ *
+ * @param task - The failed task.
+ * @param reason - Why the task failed.
+ * @returns A promise that resolves to the user's decision.
+ */
+export async function askUserEscalation(task: IMakerTask, reason: string): Promise<IEscalationResponse> {
+  const options = [
+    { label: 'Provide Result', description: 'Use the text below as the result of this task.' },
+    { label: 'Provide Guidance', description: 'Retry the task with the text below as extra guidance.' },
+    { label: 'Keep Failed', description: 'Leave the task failed.' }
+  ];
+
+  const response = await ask_user({
+    questions: [
+      {
+        header: 'Task Failed',
+        question: `The task "${task.description}" (ID: ${task.id}) failed: ${reason}. How do you want to proceed?`,
+        type: 'choice',
+        options
+      },
+      {
+        header: 'Result or Guidance',
+        question: 'Enter the result or the guidance for this task.',
+        type: 'text',
+        placeholder: 'Leave empty to keep the task failed...'
+      }
+    ]
+  });
+
+  const [choice, text] = response?.answers || [];
+  if (choice === 'Provide Result' && text) {
+    return { action: 'result', text };
+  }
+  if (choice === 'Provide Guidance' && text) {
+    return { action: 'guidance', text };
+  }
+  return { action: 'fail' };
+}
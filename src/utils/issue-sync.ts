@@ -0,0 +1,172 @@
+import { IMakerTask, MakerStatus } from '../types/maker.js';
+import { TaskTreeManager } from './task-tree.js';
+import { createIssue, editIssue, closeIssue, ensureLabel } from '../bridges/github.js';
+
+/**
+ * Issue bookkeeping stored in `task.metadata.issue`.
+ */
+export interface ITaskIssue {
+  number: number;
+  url: string;
+  parentNumber?: number;
+  status: MakerStatus;
+  body: string;
+  closed: boolean;
+}
+
+const STATUS_LABEL_COLORS: Record<MakerStatus, string> = {
+  'pending': 'ededed',
+  'in-progress': 'fbca04',
+  'completed': '0e8a16',
+  'failed': 'b60205',
+  'blocked': 'd93f0b'
+};
+
+const EPIC_LABEL = 'maker:epic';
+const MAX_RESULT_COMMENT_LENGTH = 60000;
+
+/**
+ * Mirrors a MAKER task tree as GitHub issues.
+ * The root task becomes an epic whose body holds a task list of its children,
+ * every task carries a `maker:<status>` label, and completed tasks are closed
+ * with their winning result as the closing comment.
+ */
+export class IssueSync {
+  private repo: string;
+  private taskTreeManager: TaskTreeManager;
+  private labelsReady = false;
+
+  constructor(repo: string, taskTreeManager: TaskTreeManager) {
+    this.repo = repo;
+    this.taskTreeManager = taskTreeManager;
+  }
+
+  /**
+   * Brings the issue for a task up to date: creates it if missing, swaps the
+   * status label, refreshes the task list of subtasks and closes it once the
+   * task has completed. The parent's task list is refreshed when the task's
+   * status changes.
+   */
+  public async syncTask(task: IMakerTask, root: IMakerTask): Promise<void> {
+    await this.ensureLabels();
+
+    const parent = this.taskTreeManager.findParent(root, task.id);
+    const issue = this.getIssue(task);
+
+    if (!issue) {
+      await this.createTaskIssue(task, parent);
+      if (parent) {
+        await this.refreshBody(parent);
+      }
+      return;
+    }
+
+    if (issue.status !== task.status) {
+      await editIssue(this.repo, issue.number, {
+        addLabels: [this.statusLabel(task.status)],
+        removeLabels: [this.statusLabel(issue.status)]
+      });
+      issue.status = task.status;
+      if (parent) {
+        await this.refreshBody(parent);
+      }
+    }
+
+    await this.refreshBody(task);
+
+    if (task.status === 'completed' && !issue.closed) {
+      await closeIssue(this.repo, issue.number, this.resultComment(task));
+      issue.closed = true;
+    }
+  }
+
+  /**
+   * Creates the issue for a task and records it in the task metadata.
+   */
+  private async createTaskIssue(task: IMakerTask, parent?: IMakerTask): Promise<void> {
+    const parentNumber = parent ? this.getIssue(parent)?.number : undefined;
+    const body = this.buildBody(task, parentNumber);
+    const labels = [this.statusLabel(task.status)];
+    if (!parent) {
+      labels.push(EPIC_LABEL);
+    }
+
+    const title = `${parent ? '' : '[MAKER] '}${task.description}`.substring(0, 250);
+    const created = await createIssue(this.repo, title, body, labels);
+    const issue: ITaskIssue = {
+      number: created.number,
+      url: created.url,
+      parentNumber,
+      status: task.status,
+      body,
+      closed: false
+    };
+    task.metadata = { ...task.metadata, issue };
+  }
+
+  /**
+   * Rewrites the issue body if its task list or summary changed.
+   */
+  private async refreshBody(task: IMakerTask): Promise<void> {
+    const issue = this.getIssue(task);
+    if (!issue) return;
+
+    const body = this.buildBody(task, issue.parentNumber);
+    if (body !== issue.body) {
+      await editIssue(this.repo, issue.number, { body });
+      issue.body = body;
+    }
+  }
+
+  /**
+   * Builds an issue body: description, parent link and a task list of subtasks.
+   */
+  private buildBody(task: IMakerTask, parentNumber?: number): string {
+    const lines = [task.description, '', `MAKER task ID: \`${task.id}\``];
+    if (parentNumber !== undefined) {
+      lines.push(`Parent: #${parentNumber}`);
+    }
+
+    const children = (task.subtasks || []).filter(subtask => this.getIssue(subtask));
+    if (children.length > 0) {
+      lines.push('', '### Subtasks', '');
+      for (const child of children) {
+        const mark = child.status === 'completed' ? 'x' : ' ';
+        lines.push(`- [${mark}] #${this.getIssue(child)!.number}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Formats the closing comment for a completed task.
+   */
+  private resultComment(task: IMakerTask): string {
+    const result = task.result || '_No result recorded._';
+    const body = result.length > MAX_RESULT_COMMENT_LENGTH
+      ? `${result.substring(0, MAX_RESULT_COMMENT_LENGTH)}\n\n_(truncated)_`
+      : result;
+    return `### Result\n\n${body}`;
+  }
+
+  /**
+   * Creates the status and epic labels once per run.
+   */
+  private async ensureLabels(): Promise<void> {
+    if (this.labelsReady) return;
+    for (const [status, color] of Object.entries(STATUS_LABEL_COLORS)) {
+      await ensureLabel(this.repo, this.statusLabel(status as MakerStatus), color);
+    }
+    await ensureLabel(this.repo, EPIC_LABEL, '5319e7');
+    this.labelsReady = true;
+  }
+
+  private statusLabel(status: MakerStatus): string {
+    return `maker:${status}`;
+  }
+
+  private getIssue(task: IMakerTask): ITaskIssue | undefined {
+    return task.metadata?.issue;
+  }
+}
@@ -0,0 +1,398 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { IMakerTask, ISamplingConfig } from '../types/maker.js';
+import { TaskTreeManager } from './task-tree.js';
+import { parseYaml, stringifyYaml } from './yaml.js';
+import { checkSampling } from './sampling.js';
+
+export type PlanFormat = 'yaml' | 'markdown';
+
+/**
+ * One task of a plan file. `after` lists the IDs of sibling prerequisites,
+ * `minimal` marks a task to execute directly instead of decomposing it,
+ * `criteria` holds its acceptance criteria and `sampling` overrides how its
+ * voting round samples.
+ * Tasks added by hand may omit `id`; one is generated when the plan is loaded.
+ */
+export interface IPlanNode {
+  id?: string;
+  description: string;
+  minimal?: boolean;
+  after?: string[];
+  criteria?: string[];
+  sampling?: ISamplingConfig;
+  tasks?: IPlanNode[];
+}
+
+/**
+ * A plan file: the root goal, the repository it runs against and its task tree.
+ */
+export interface IPlan extends IPlanNode {
+  repo?: string;
+}
+
+/**
+ * Picks the plan format from a file extension.
+ */
+export function planFormatFor(filePath: string): PlanFormat {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.yaml' || extension === '.yml') {
+    return 'yaml';
+  }
+  if (extension === '.md' || extension === '.markdown') {
+    return 'markdown';
+  }
+  throw new Error(`Unknown plan format for ${filePath}. Use .yaml, .yml or .md.`);
+}
+
+/**
+ * Converts a task tree into its plan form. Results and statuses are not part of a plan.
+ */
+export function toPlan(root: IMakerTask): IPlan {
+  const toNode = (task: IMakerTask): IPlanNode => ({
+    id: task.id,
+    description: task.description,
+    minimal: task.metadata?.isMinimal === true ? true : undefined,
+    after: task.dependencies && task.dependencies.length > 0 ? task.dependencies : undefined,
+    criteria: task.acceptanceCriteria && task.acceptanceCriteria.length > 0 ? task.acceptanceCriteria : undefined,
+    sampling: task.sampling,
+    tasks: task.subtasks && task.subtasks.length > 0 ? task.subtasks.map(toNode) : undefined
+  });
+  const { id, description, ...rest } = toNode(root);
+  return { id, description, repo: root.metadata?.repoName, ...rest };
+}
+
+/**
+ * Serializes a task tree as a plan in the given format.
+ */
+export function renderPlan(root: IMakerTask, format: PlanFormat): string {
+  return format === 'yaml' ? stringifyYaml(toPlan(root)) : renderPlanOutline(root);
+}
+
+/**
+ * Renders a task tree as a Markdown outline for review.
+ * Each task is a list item followed by its attributes in braces: the task ID,
+ * `.minimal` for leaves that will be executed directly, `after=` for sibling
+ * prerequisites and `sampling.<setting>=` for sampling overrides. Acceptance
+ * criteria are unchecked `[ ]` items nested under their task. The heading
+ * carries the root goal and `repo=`. Line breaks and backslashes in text are
+ * written as `\n` and `\\`, and a leading `[` as `\[`.
+ *
+ * ```markdown
+ * # Build a calculator {#root}
+ *
+ * - Write the parser {#task-a .minimal sampling.batchSize=5}
+ *   - [ ] Parses negative numbers
+ * - Write the evaluator {#task-b .minimal after=task-a}
+ * ```
+ */
+export function renderPlanOutline(root: IMakerTask): string {
+  const plan = toPlan(root);
+  const lines = [`# ${escapeOutlineText(plan.description)} ${formatAttributes(plan)}`, ''];
+
+  const addCriteria = (node: IPlanNode, indent: string) => {
+    for (const criterion of node.criteria || []) {
+      lines.push(`${indent}- [ ] ${escapeOutlineText(criterion)}`);
+    }
+  };
+  const traverse = (node: IPlanNode, indent: string) => {
+    lines.push(`${indent}- ${escapeOutlineText(node.description)} ${formatAttributes(node)}`);
+    addCriteria(node, `${indent}  `);
+    for (const child of node.tasks || []) {
+      traverse(child, `${indent}  `);
+    }
+  };
+
+  addCriteria(plan, '');
+  for (const node of plan.tasks || []) {
+    traverse(node, '');
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Formats the brace attribute block of one outline entry.
+ */
+function formatAttributes(node: IPlan): string {
+  const attributes = [`#${node.id}`];
+  if (node.minimal) {
+    attributes.push('.minimal');
+  }
+  if (node.after) {
+    attributes.push(`after=${node.after.join(',')}`);
+  }
+  for (const [key, value] of Object.entries(node.sampling || {})) {
+    if (value !== undefined) {
+      attributes.push(`sampling.${key}=${value}`);
+    }
+  }
+  if (node.repo) {
+    attributes.push(`repo=${node.repo}`);
+  }
+  return `{${attributes.join(' ')}}`;
+}
+
+/**
+ * Keeps a description or criterion on one outline line.
+ */
+function escapeOutlineText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/^\[/, '\\[');
+}
+
+/**
+ * Reverses `escapeOutlineText`.
+ */
+function unescapeOutlineText(text: string): string {
+  return text.replace(/\\([\\n[])/g, (_match, escaped: string) => escaped === 'n' ? '\n' : escaped);
+}
+
+/**
+ * Parses a plan written in YAML or as a Markdown outline.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function parsePlan(text: string, format: PlanFormat): IPlan {
+  return format === 'yaml' ? parseYamlPlan(text) : parseMarkdownPlan(text);
+}
+
+function parseYamlPlan(text: string): IPlan {
+  const value = parseYaml(text);
+  const plan = toPlanNode(value, 'plan') as IPlan;
+  const repo = (value as Record<string, unknown>).repo;
+  if (repo !== undefined && repo !== null) {
+    if (typeof repo !== 'string') {
+      throw new Error('plan.repo must be a string.');
+    }
+    plan.repo = repo;
+  }
+  return plan;
+}
+
+/**
+ * Checks the shape of one YAML plan node.
+ */
+function toPlanNode(value: unknown, location: string): IPlanNode {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${location} must be a mapping.`);
+  }
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.description !== 'string' || raw.description.trim() === '') {
+    throw new Error(`${location}.description must be a non-empty string.`);
+  }
+  if (raw.id !== undefined && raw.id !== null && typeof raw.id !== 'string') {
+    throw new Error(`${location}.id must be a string.`);
+  }
+  if (raw.minimal !== undefined && raw.minimal !== null && typeof raw.minimal !== 'boolean') {
+    throw new Error(`${location}.minimal must be true or false.`);
+  }
+  if (raw.after !== undefined && raw.after !== null &&
+      (!Array.isArray(raw.after) || raw.after.some(id => typeof id !== 'string'))) {
+    throw new Error(`${location}.after must be a list of task IDs.`);
+  }
+  if (raw.criteria !== undefined && raw.criteria !== null &&
+      (!Array.isArray(raw.criteria) || raw.criteria.some(criterion => typeof criterion !== 'string'))) {
+    throw new Error(`${location}.criteria must be a list of strings.`);
+  }
+  if (raw.sampling !== undefined && raw.sampling !== null) {
+    checkSampling(raw.sampling, `${location}.sampling`);
+  }
+  if (raw.tasks !== undefined && raw.tasks !== null && !Array.isArray(raw.tasks)) {
+    throw new Error(`${location}.tasks must be a list.`);
+  }
+
+  return {
+    id: (raw.id as string | null) ?? undefined,
+    description: raw.description.trim(),
+    minimal: (raw.minimal as boolean | null) ?? undefined,
+    after: (raw.after as string[] | null) ?? undefined,
+    criteria: (raw.criteria as string[] | null) ?? undefined,
+    sampling: (raw.sampling as ISamplingConfig | null) ?? undefined,
+    tasks: ((raw.tasks as unknown[] | null) ?? undefined)?.map((child, index) => toPlanNode(child, `${location}.tasks[${index}]`))
+  };
+}
+
+/**
+ * Parses the outline written by `renderPlanOutline`. The first `#` heading is
+ * the root goal; list items (`-` or `*`) nest by indentation, and `[ ]` items
+ * are acceptance criteria of the task they are nested under.
+ */
+function parseMarkdownPlan(text: string): IPlan {
+  let plan: IPlan | null = null;
+  const stack: Array<{ indent: number; node: IPlanNode }> = [];
+
+  for (const [index, line] of text.split(/\r?\n/).entries()) {
+    if (line.trim() === '') continue;
+
+    const heading = line.match(/^#\s+(.*)$/);
+    if (heading && !plan) {
+      plan = parseOutlineEntry(heading[1], index + 1);
+      continue;
+    }
+
+    const item = line.match(/^(\s*)[-*]\s+(.*)$/);
+    if (!item) {
+      throw new Error(`Invalid plan outline at line ${index + 1}: expected a "# goal" heading or a "- task" list item.`);
+    }
+    if (!plan) {
+      throw new Error(`Invalid plan outline at line ${index + 1}: the plan must start with a "# goal" heading.`);
+    }
+
+    const indent = item[1].replace(/\t/g, '  ').length;
+    const criterion = item[2].match(/^\[ \]\s+(.*)$/);
+    if (criterion) {
+      const owner = [...stack].reverse().find(entry => entry.indent < indent)?.node ?? plan;
+      owner.criteria = [...(owner.criteria || []), unescapeOutlineText(criterion[1].trim())];
+      continue;
+    }
+
+    const node = parseOutlineEntry(item[2], index + 1);
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parent: IPlanNode = stack.length > 0 ? stack[stack.length - 1].node : plan;
+    parent.tasks = [...(parent.tasks || []), node];
+    stack.push({ indent, node });
+  }
+
+  if (!plan) {
+    throw new Error('Invalid plan outline: no "# goal" heading found.');
+  }
+  return plan;
+}
+
+/** One attribute of an outline entry: `#id`, `.flag` or `key=value`. */
+const OUTLINE_ATTRIBUTE = /^(?:#\S+|\.[\w-]+|[\w.]+=\S*)$/;
+
+/**
+ * Splits `description {#id .minimal after=a,b sampling.batchSize=5 repo=owner/name}` into a plan node.
+ * A trailing brace block is only read as attributes when every word in it
+ * looks like one, so a description may itself end in braces, e.g. `{ ok: true }`.
+ */
+function parseOutlineEntry(text: string, lineNumber: number): IPlan {
+  const match = text.match(/^(.*?)\s*\{([^{}]*)\}\s*$/);
+  const attributes = match ? match[2].split(/\s+/).filter(Boolean) : [];
+  const isAttributeBlock = attributes.length > 0 && attributes.every(attribute => OUTLINE_ATTRIBUTE.test(attribute));
+  const node: IPlan = { description: unescapeOutlineText((isAttributeBlock ? match![1] : text).trim()) };
+  if (node.description === '') {
+    throw new Error(`Invalid plan outline at line ${lineNumber}: the task has no description.`);
+  }
+
+  for (const attribute of isAttributeBlock ? attributes : []) {
+    if (attribute.startsWith('#')) {
+      node.id = attribute.substring(1);
+    } else if (attribute === '.minimal') {
+      node.minimal = true;
+    } else if (attribute.startsWith('after=')) {
+      node.after = attribute.substring('after='.length).split(',').filter(Boolean);
+    } else if (attribute.startsWith('repo=')) {
+      node.repo = attribute.substring('repo='.length);
+    } else if (attribute.startsWith('sampling.') && attribute.includes('=')) {
+      const [key, value] = attribute.substring('sampling.'.length).split('=', 2);
+      node.sampling = { ...node.sampling, [key]: key === 'mode' ? value : Number(value) };
+    } else {
+      throw new Error(`Invalid plan outline at line ${lineNumber}: unknown attribute "${attribute}".`);
+    }
+  }
+  if (node.sampling) {
+    try {
+      checkSampling(node.sampling, 'sampling');
+    } catch (error) {
+      throw new Error(`Invalid plan outline at line ${lineNumber}: ${(error as Error).message}`);
+    }
+  }
+  return node;
+}
+
+/**
+ * Builds a pending task tree from a plan. Missing IDs are generated, depths
+ * are derived from nesting and the result is validated with `TaskTreeManager`.
+ *
+ * @throws Error if IDs repeat, a prerequisite is not a sibling or dependencies form a cycle.
+ */
+export function buildTaskTree(plan: IPlan, manager: TaskTreeManager = new TaskTreeManager()): IMakerTask {
+  const root: IMakerTask = {
+    id: plan.id || 'root',
+    description: plan.description,
+    status: 'pending',
+    ...(plan.criteria && plan.criteria.length > 0 ? { acceptanceCriteria: plan.criteria } : {}),
+    ...(plan.sampling ? { sampling: plan.sampling } : {}),
+    metadata: { depth: 0, ...(plan.repo ? { repoName: plan.repo } : {}) }
+  };
+  if (plan.after && plan.after.length > 0) {
+    throw new Error('The root task cannot depend on other tasks.');
+  }
+
+  const usedIds = new Set([root.id]);
+  const collectIds = (node: IPlanNode) => {
+    for (const child of node.tasks || []) {
+      if (child.id) {
+        if (usedIds.has(child.id)) {
+          throw new Error(`Task ID ${child.id} is used more than once in the plan.`);
+        }
+        usedIds.add(child.id);
+      }
+      collectIds(child);
+    }
+  };
+  collectIds(plan);
+
+  const addChildren = (node: IPlanNode, parent: IMakerTask) => {
+    const children = node.tasks || [];
+    const tasks = children.map(child => {
+      const task: IMakerTask = {
+        id: child.id || generateId(usedIds),
+        description: child.description,
+        status: 'pending',
+        ...(child.criteria && child.criteria.length > 0 ? { acceptanceCriteria: child.criteria } : {}),
+        ...(child.sampling ? { sampling: child.sampling } : {}),
+        metadata: {
+          depth: parent.metadata!.depth + 1,
+          ...(child.minimal ? { isMinimal: true } : {}),
+          ...(plan.repo ? { repoName: plan.repo } : {})
+        }
+      };
+      manager.addTask(parent.id, task, root);
+      return task;
+    });
+
+    // Prerequisites are added once all siblings exist so that they may point forward.
+    children.forEach((child, index) => {
+      for (const prerequisiteId of child.after || []) {
+        manager.addDependency(root, tasks[index].id, prerequisiteId);
+      }
+      addChildren(child, tasks[index]);
+    });
+  };
+  addChildren(plan, root);
+
+  manager.validateTree(root);
+  return root;
+}
+
+/**
+ * Reads a plan file and builds its task tree. The format follows the extension.
+ */
+export async function loadPlanFile(filePath: string, manager?: TaskTreeManager): Promise<IMakerTask> {
+  const text = await fs.readFile(filePath, 'utf-8');
+  try {
+    return buildTaskTree(parsePlan(text, planFormatFor(filePath)), manager);
+  } catch (error: any) {
+    throw new Error(`Invalid plan ${filePath}: ${error.message}`);
+  }
+}
+
+/**
+ * Generates a task ID that is not yet used in the plan.
+ */
+function generateId(usedIds: Set<string>): string {
+  let id: string;
+  do {
+    id = `task-${Math.random().toString(36).substring(2, 11)}`;
+  } while (usedIds.has(id));
+  usedIds.add(id);
+  return id;
+}
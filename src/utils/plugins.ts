@@ -0,0 +1,96 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Canonicalizer, IMakerPlugin, IMakerTask, IPluginConfig, MakerEventHandler, MakerEventName, MakerHookName, IMakerHooks } from '../types/maker.js';
+import { MakerEventBus } from './events.js';
+
+type HookValue<H extends MakerHookName> = NonNullable<IMakerHooks[H]> extends (task: IMakerTask, value: infer T) => any ? T : never;
+
+/**
+ * Outcome of running a hook across all plugins.
+ */
+export interface IHookOutcome<T> {
+  value: T;
+  veto?: { plugin: string; hook: MakerHookName; reason: string };
+}
+
+/**
+ * Imports the plugins listed in `MakerConfig.plugins`.
+ */
+export async function loadPlugins(configs: IPluginConfig[] = []): Promise<IMakerPlugin[]> {
+  const plugins: IMakerPlugin[] = [];
+  for (const config of configs) {
+    const specifier = config.module.startsWith('.') || path.isAbsolute(config.module)
+      ? pathToFileURL(path.resolve(config.module)).href
+      : config.module;
+    const loaded = await import(specifier);
+    const exported = loaded.default ?? loaded;
+    const plugin: IMakerPlugin = typeof exported === 'function' ? await exported(config.options || {}) : exported;
+    if (!plugin || typeof plugin.name !== 'string') {
+      throw new Error(`Plugin module ${config.module} does not export a plugin with a name.`);
+    }
+    console.log(`[Plugins] Loaded plugin '${plugin.name}' from ${config.module}.`);
+    plugins.push(plugin);
+  }
+  return plugins;
+}
+
+/**
+ * The plugins active for one run: subscribes their event handlers and runs their hooks.
+ */
+export class PluginHost {
+  constructor(private readonly plugins: IMakerPlugin[] = []) {}
+
+  /**
+   * Subscribes every plugin's event handlers to `bus`. Returns a function that
+   * removes them again.
+   */
+  public attach(bus: MakerEventBus): () => void {
+    const unsubscribers: Array<() => void> = [];
+    for (const plugin of this.plugins) {
+      for (const [event, handler] of Object.entries(plugin.events || {})) {
+        unsubscribers.push(bus.on(event as MakerEventName, handler as MakerEventHandler<MakerEventName>));
+      }
+    }
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Collects the canonicalizers of all plugins. A later plugin wins a name clash.
+   */
+  public canonicalizers(): Record<string, Canonicalizer> {
+    return Object.assign({}, ...this.plugins.map(plugin => plugin.canonicalizers || {}));
+  }
+
+  /**
+   * Runs `hook` of each plugin in order, passing along changed values.
+   * The first veto stops the chain. A hook that throws counts as a veto, so a
+   * broken policy check cannot let a step through.
+   */
+  public async runHook<H extends MakerHookName>(
+    hook: H,
+    task: IMakerTask,
+    value: HookValue<H>
+  ): Promise<IHookOutcome<HookValue<H>>> {
+    let current = value;
+    for (const plugin of this.plugins) {
+      const handler = plugin.hooks?.[hook] as ((task: IMakerTask, value: HookValue<H>) => any) | undefined;
+      if (!handler) continue;
+
+      let result: { value?: HookValue<H>; veto?: string } | void;
+      try {
+        result = await handler(task, current);
+      } catch (error: any) {
+        result = { veto: `${hook} hook failed: ${error.message}` };
+      }
+
+      if (result?.veto !== undefined) {
+        console.warn(`[Plugins] Plugin '${plugin.name}' vetoed ${hook} for task ${task.id}: ${result.veto}`);
+        return { value: current, veto: { plugin: plugin.name, hook, reason: result.veto } };
+      }
+      if (result?.value !== undefined) {
+        current = result.value;
+      }
+    }
+    return { value: current };
+  }
+}
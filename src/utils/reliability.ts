@@ -0,0 +1,161 @@
+import { IMakerTask, IReliabilityConfig, IReliabilityEstimate, ISampleStats, MakerConfig } from '../types/maker.js';
+
+const DEFAULT_TARGET = 0.95;
+const DEFAULT_PRIOR_ACCURACY = 0.8;
+const DEFAULT_PRIOR_WEIGHT = 5;
+const DEFAULT_MIN_K = 1;
+const DEFAULT_MAX_K = 10;
+
+/**
+ * Probability that "first-to-ahead-by-k" voting picks the correct answer when
+ * each sample is correct with probability `accuracy` (gambler's ruin against a
+ * single wrong alternative).
+ */
+export function stepSuccess(accuracy: number, k: number): number {
+  if (accuracy >= 1) return 1;
+  if (accuracy <= 0) return 0;
+  return 1 / (1 + Math.pow((1 - accuracy) / accuracy, k));
+}
+
+/**
+ * Smallest k in [minK, maxK] for which `steps` independent voting steps all
+ * succeed with probability at least `target`. Returns `maxK` when no k in
+ * range is enough, e.g. when samples are right at most half of the time.
+ */
+export function requiredK(accuracy: number, steps: number, target: number, minK = DEFAULT_MIN_K, maxK = DEFAULT_MAX_K): number {
+  if (accuracy >= 1) return minK;
+  if (accuracy <= 0.5) return maxK;
+
+  // stepSuccess(p, k) >= target^(1/steps)  <=>  ((1-p)/p)^k <= (1-s)/s
+  const perStep = Math.pow(target, 1 / Math.max(steps, 1));
+  if (perStep >= 1) return maxK;
+  const k = Math.ceil(Math.log((1 - perStep) / perStep) / Math.log((1 - accuracy) / accuracy));
+  return Math.min(maxK, Math.max(minK, k));
+}
+
+/**
+ * Checks `votingThreshold` and `reliability`: a fixed margin must be a positive
+ * integer, `target` and `priorAccuracy` probabilities strictly between 0 and 1,
+ * `priorWeight` a non-negative number and `minK` and `maxK` positive integers
+ * with `minK <= maxK`.
+ *
+ * @throws Error naming the first setting that is out of range.
+ */
+export function checkVotingMargin(config: MakerConfig): void {
+  if (config.votingThreshold !== 'auto' && !(Number.isInteger(config.votingThreshold) && config.votingThreshold > 0)) {
+    throw new Error('votingThreshold must be a positive integer or "auto".');
+  }
+  const reliability = config.reliability || {};
+  for (const key of ['target', 'priorAccuracy'] as const) {
+    const value = reliability[key];
+    if (value !== undefined && !(Number.isFinite(value) && value > 0 && value < 1)) {
+      throw new Error(`reliability.${key} must be a number between 0 and 1.`);
+    }
+  }
+  if (reliability.priorWeight !== undefined && !(Number.isFinite(reliability.priorWeight) && reliability.priorWeight >= 0)) {
+    throw new Error('reliability.priorWeight must be a non-negative number.');
+  }
+  for (const key of ['minK', 'maxK'] as const) {
+    const value = reliability[key];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      throw new Error(`reliability.${key} must be a positive integer.`);
+    }
+  }
+  if ((reliability.minK ?? DEFAULT_MIN_K) > (reliability.maxK ?? DEFAULT_MAX_K)) {
+    throw new Error('reliability.minK must not be greater than reliability.maxK.');
+  }
+}
+
+/**
+ * The fixed margin for callers without a run to learn from: the configured
+ * number, or for 'auto' the margin for a single step at the prior accuracy.
+ */
+export function fixedVotingThreshold(config: MakerConfig): number {
+  if (config.votingThreshold !== 'auto') {
+    return config.votingThreshold;
+  }
+  const reliability = config.reliability || {};
+  return requiredK(
+    reliability.priorAccuracy ?? DEFAULT_PRIOR_ACCURACY,
+    1,
+    reliability.target ?? DEFAULT_TARGET,
+    reliability.minK,
+    reliability.maxK
+  );
+}
+
+/**
+ * Chooses k for each voting round of a run with `votingThreshold: 'auto'`.
+ * Per-sample accuracy is estimated from the rounds seen so far: the votes of
+ * each round's leading candidate out of all its samples that were voted or
+ * red-flagged. Counting red-flagged samples as wrong keeps the estimate
+ * conservative when an executor often produces unusable output.
+ */
+export class ReliabilityEstimator {
+  private agreeing = 0;
+  private observed = 0;
+
+  /**
+   * @param root - The run's task tree; every leaf and, with LLM composition,
+   * every parent is a voting step.
+   */
+  constructor(private readonly config: MakerConfig, private readonly root: IMakerTask) {}
+
+  /**
+   * Records the outcome of a voting round.
+   *
+   * @param stats - The round's sample statistics.
+   * @param leaderVotes - Votes of the round's leading candidate.
+   */
+  public observe(stats: ISampleStats, leaderVotes: number): void {
+    this.agreeing += leaderVotes;
+    this.observed += stats.votes + stats.redFlagged;
+  }
+
+  /**
+   * The current per-sample accuracy estimate.
+   */
+  public accuracy(): number {
+    const prior = this.settings.priorAccuracy ?? DEFAULT_PRIOR_ACCURACY;
+    const weight = this.settings.priorWeight ?? DEFAULT_PRIOR_WEIGHT;
+    if (this.observed + weight === 0) {
+      return prior;
+    }
+    return (this.agreeing + prior * weight) / (this.observed + weight);
+  }
+
+  /**
+   * Counts the voting steps of the tree as it stands. The count grows while
+   * tasks are still being decomposed.
+   */
+  public steps(): number {
+    const composes = this.config.composition?.mode === 'llm';
+    const count = (task: IMakerTask): number => {
+      const subtasks = task.subtasks || [];
+      if (subtasks.length === 0) return 1;
+      return (composes ? 1 : 0) + subtasks.reduce((sum, subtask) => sum + count(subtask), 0);
+    };
+    return count(this.root);
+  }
+
+  /**
+   * Chooses k for the next voting round.
+   */
+  public chooseK(): IReliabilityEstimate {
+    const accuracy = this.accuracy();
+    const steps = this.steps();
+    const target = this.settings.target ?? DEFAULT_TARGET;
+    const k = requiredK(accuracy, steps, target, this.settings.minK, this.settings.maxK);
+    return {
+      k,
+      accuracy: Number(accuracy.toFixed(4)),
+      steps,
+      target,
+      predictedSuccess: Number(Math.pow(stepSuccess(accuracy, k), steps).toFixed(4))
+    };
+  }
+
+  private get settings(): IReliabilityConfig {
+    return this.config.reliability || {};
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Checks the shape of `sampling` settings, from a plan task or `MakerConfig.sampling`.
+ * Every number must be positive and finite, and `backoffFactor` at least 1 so
+ * that polls never come faster than `pollIntervalSeconds`.
+ */
+export function checkSampling(value: unknown, location: string): void {
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${location} must be a mapping.`);
+  }
+  const numbers = ['batchSize', 'maxRounds', 'pollIntervalSeconds', 'backoffFactor', 'maxPollIntervalSeconds'];
+  for (const [key, setting] of Object.entries(value as Record<string, unknown>)) {
+    if (key === 'mode') {
+      if (setting !== 'fixed' && setting !== 'adaptive') {
+        throw new Error(`${location}.mode must be fixed or adaptive.`);
+      }
+    } else if (!numbers.includes(key)) {
+      throw new Error(`${location}.${key} is not a sampling setting.`);
+    } else if (typeof setting !== 'number' || !Number.isFinite(setting) || setting <= 0) {
+      throw new Error(`${location}.${key} must be a positive number.`);
+    } else if (key === 'backoffFactor' && setting < 1) {
+      throw new Error(`${location}.backoffFactor must be at least 1.`);
+    }
+  }
+}
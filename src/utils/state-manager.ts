@@ -15,6 +15,7 @@ export interface IMakerState {
  */
 export class StateManager {
   private static DEFAULT_STATE_PATH = 'maker-state.json';
+  private writeQueue: Promise<unknown> = Promise.resolve();
 
   /**
    * Loads the state from a JSON file.
@@ -34,9 +35,40 @@ export class StateManager {
 
   /**
    * Saves the state to a JSON file atomically using a temporary file.
+   * Writes are serialized so concurrent callers never interleave.
    */
   public async saveState(state: IMakerState, filePath: string = StateManager.DEFAULT_STATE_PATH): Promise<void> {
-    const tempPath = `${filePath}.tmp`;
+    return this.serialize(() => this.writeState(state, filePath));
+  }
+
+  /**
+   * Partially updates the state and saves it.
+   * The read-modify-write cycle runs under the same lock as `saveState`.
+   */
+  public async updateState(
+    patch: Partial<IMakerState>,
+    filePath: string = StateManager.DEFAULT_STATE_PATH
+  ): Promise<IMakerState> {
+    return this.serialize(async () => {
+      const currentState = await this.loadState(filePath);
+      const newState: IMakerState = {
+        ...currentState,
+        ...patch,
+        metadata: {
+          ...currentState.metadata,
+          ...(patch.metadata || {}),
+        },
+      };
+      await this.writeState(newState, filePath);
+      return newState;
+    });
+  }
+
+  /**
+   * Writes the state through a temporary file and renames it into place.
+   */
+  private async writeState(state: IMakerState, filePath: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
     try {
       const data = JSON.stringify(state, null, 2);
       await fs.writeFile(tempPath, data, 'utf-8');
@@ -52,23 +84,12 @@ export class StateManager {
   }
 
   /**
-   * Partially updates the state and saves it.
+   * Runs state writes one at a time.
    */
-  public async updateState(
-    patch: Partial<IMakerState>,
-    filePath: string = StateManager.DEFAULT_STATE_PATH
-  ): Promise<IMakerState> {
-    const currentState = await this.loadState(filePath);
-    const newState: IMakerState = {
-      ...currentState,
-      ...patch,
-      metadata: {
-        ...currentState.metadata,
-        ...(patch.metadata || {}),
-      },
-    };
-    await this.saveState(newState, filePath);
-    return newState;
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.writeQueue.then(operation);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
   }
 
   /**
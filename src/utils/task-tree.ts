@@ -28,10 +28,130 @@ export class TaskTreeManager {
     if (!parentTask.subtasks) {
       parentTask.subtasks = [];
     }
+    // A new task can only depend on siblings that already exist, so the only
+    // possible cycle is a task depending on itself.
+    for (const dependencyId of newTask.dependencies || []) {
+      if (dependencyId === newTask.id) {
+        throw new Error(`Task ${newTask.id} cannot depend on itself.`);
+      }
+      if (!parentTask.subtasks.some(sibling => sibling.id === dependencyId)) {
+        throw new Error(`Dependency ${dependencyId} of task ${newTask.id} is not a sibling under ${parentTaskId}.`);
+      }
+    }
     parentTask.subtasks.push(newTask);
     return root;
   }
 
+  /**
+   * Declares that a task cannot start until a sibling prerequisite has completed.
+   * Throws if the tasks are not siblings or if the dependency would create a cycle.
+   */
+  public addDependency(root: IMakerTask | null, taskId: string, prerequisiteId: string): IMakerTask {
+    if (!root) {
+      throw new Error('Cannot add a dependency to a non-existent root.');
+    }
+
+    const parent = this.findParent(root, taskId);
+    if (!parent || this.findParent(root, prerequisiteId) !== parent) {
+      throw new Error(`Tasks ${taskId} and ${prerequisiteId} must be siblings to depend on each other.`);
+    }
+
+    const task = parent.subtasks!.find(sibling => sibling.id === taskId)!;
+    if (task.dependencies?.includes(prerequisiteId)) {
+      return root;
+    }
+    if (taskId === prerequisiteId || this.dependsOn(parent.subtasks!, prerequisiteId, taskId)) {
+      throw new Error(`Dependency of ${taskId} on ${prerequisiteId} would create a cycle.`);
+    }
+
+    task.dependencies = [...(task.dependencies || []), prerequisiteId];
+    return root;
+  }
+
+  /**
+   * Returns true if `taskId` transitively depends on `prerequisiteId` among the given siblings.
+   */
+  private dependsOn(siblings: IMakerTask[], taskId: string, prerequisiteId: string): boolean {
+    const byId = new Map(siblings.map(sibling => [sibling.id, sibling]));
+    const visited = new Set<string>();
+    const stack = [taskId];
+
+    while (stack.length > 0) {
+      const current = byId.get(stack.pop()!);
+      for (const dependencyId of current?.dependencies || []) {
+        if (dependencyId === prerequisiteId) {
+          return true;
+        }
+        if (!visited.has(dependencyId)) {
+          visited.add(dependencyId);
+          stack.push(dependencyId);
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Orders sibling tasks so that every task comes after its prerequisites.
+   * Independent tasks keep their original relative order.
+   */
+  public getExecutionOrder(siblings: IMakerTask[]): IMakerTask[] {
+    const ids = new Set(siblings.map(sibling => sibling.id));
+    const placed = new Set<string>();
+    const order: IMakerTask[] = [];
+
+    while (order.length < siblings.length) {
+      const next = siblings.find(sibling =>
+        !placed.has(sibling.id) &&
+        (sibling.dependencies || []).every(id => placed.has(id) || !ids.has(id))
+      );
+      if (!next) {
+        throw new Error('Sibling tasks contain a dependency cycle.');
+      }
+      placed.add(next.id);
+      order.push(next);
+    }
+
+    return order;
+  }
+
+  /**
+   * Checks a whole tree before it is executed: task IDs are unique, every
+   * `metadata.depth` matches the task's nesting level, and dependencies point
+   * to existing siblings without forming a cycle.
+   */
+  public validateTree(root: IMakerTask): void {
+    const seen = new Set<string>();
+
+    const traverse = (task: IMakerTask, depth: number) => {
+      if (seen.has(task.id)) {
+        throw new Error(`Task ID ${task.id} is used more than once.`);
+      }
+      seen.add(task.id);
+
+      if (task.metadata?.depth !== undefined && task.metadata.depth !== depth) {
+        throw new Error(`Task ${task.id} has depth ${task.metadata.depth} but sits at depth ${depth}.`);
+      }
+
+      const siblings = task.subtasks || [];
+      for (const subtask of siblings) {
+        for (const dependencyId of subtask.dependencies || []) {
+          if (dependencyId === subtask.id || !siblings.some(sibling => sibling.id === dependencyId)) {
+            throw new Error(`Dependency ${dependencyId} of task ${subtask.id} is not a sibling under ${task.id}.`);
+          }
+        }
+      }
+      this.getExecutionOrder(siblings);
+
+      for (const subtask of siblings) {
+        traverse(subtask, depth + 1);
+      }
+    };
+
+    traverse(root, 0);
+  }
+
   /**
    * Recursively finds a task with the given ID in the tree.
    */
@@ -56,6 +176,27 @@ export class TaskTreeManager {
     return undefined;
   }
 
+  /**
+   * Finds the parent of the task with the given ID, or undefined for the root.
+   */
+  public findParent(root: IMakerTask | null, taskId: string): IMakerTask | undefined {
+    if (!root || !root.subtasks) {
+      return undefined;
+    }
+
+    for (const subtask of root.subtasks) {
+      if (subtask.id === taskId) {
+        return root;
+      }
+      const found = this.findParent(subtask, taskId);
+      if (found) {
+        return found;
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Updates the status of a specific task and recursively propagates status up if necessary.
    * In the MAKER framework, status propagation is usually context-specific.
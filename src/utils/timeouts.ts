@@ -0,0 +1,96 @@
+import { IExecutorResult, IExecutorTaskOptions, IMakerExecutor, IMakerTask, TimeoutPhase } from '../types/maker.js';
+import { RunCancelledError, sleep } from './cancellation.js';
+
+/**
+ * Thrown when one phase of work on a task runs past its configured limit.
+ */
+export class PhaseTimeoutError extends Error {
+  constructor(public readonly phase: TimeoutPhase, public readonly seconds: number) {
+    super(`The ${phase} phase timed out after ${seconds}s.`);
+    this.name = 'PhaseTimeoutError';
+  }
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Starts an executor session without waiting and polls it until it finishes.
+ * A session still running after `seconds` (PhaseTimeoutError) or when the
+ * signal is aborted (RunCancelledError) is cancelled before this rejects, so
+ * it never outlives the session permit of its caller.
+ */
+export async function runSession(
+  executor: IMakerExecutor,
+  options: IExecutorTaskOptions,
+  phase: TimeoutPhase,
+  seconds?: number,
+  signal?: AbortSignal | null
+): Promise<IExecutorResult> {
+  const deadline = seconds !== undefined ? Date.now() + seconds * 1000 : Infinity;
+  let result = await executor.start({ ...options, wait: false });
+
+  while (result.status !== 'completed' && result.status !== 'failed') {
+    await sleep(Math.min(POLL_INTERVAL_MS, deadline - Date.now()), signal);
+    if (signal?.aborted || Date.now() >= deadline) {
+      try {
+        await executor.cancel(result.sessionId);
+      } catch (error) {
+        console.warn(`[${executor.name}] Failed to cancel session ${result.sessionId}:`, error);
+      }
+      throw signal?.aborted ? new RunCancelledError() : new PhaseTimeoutError(phase, seconds!);
+    }
+    result = await executor.getStatus(result.sessionId);
+  }
+  return result;
+}
+
+/**
+ * Appends a timeout to `metadata.timeouts` of the task.
+ */
+export function recordTimeout(task: IMakerTask, phase: TimeoutPhase, seconds: number, detail?: string): void {
+  const record = { phase, seconds, at: new Date().toISOString(), ...(detail ? { detail } : {}) };
+  task.metadata = { ...task.metadata, timeouts: [...(task.metadata?.timeouts || []), record] };
+}
+
+/**
+ * The signal a run's agents watch: aborted when the caller's signal is, or when
+ * the run deadline passes. Call `dispose` once the run is over.
+ */
+export class RunDeadline {
+  public readonly signal: AbortSignal;
+  private readonly controller = new AbortController();
+  private readonly timer?: ReturnType<typeof setTimeout>;
+  private readonly forward = () => this.controller.abort();
+  private expired = false;
+
+  constructor(private readonly parent: AbortSignal | null, seconds?: number) {
+    this.signal = this.controller.signal;
+    if (parent?.aborted) {
+      this.controller.abort();
+    } else {
+      parent?.addEventListener('abort', this.forward, { once: true });
+    }
+    if (seconds) {
+      this.timer = setTimeout(() => {
+        if (this.signal.aborted) return;
+        this.expired = true;
+        console.warn(`[RunDeadline] The run deadline of ${seconds}s has passed.`);
+        this.controller.abort();
+      }, seconds * 1000);
+      // A pending deadline alone must not keep the process alive.
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * True if the run was stopped by its deadline rather than by the caller.
+   */
+  public get hasExpired(): boolean {
+    return this.expired;
+  }
+
+  public dispose(): void {
+    clearTimeout(this.timer);
+    this.parent?.removeEventListener('abort', this.forward);
+  }
+}
@@ -0,0 +1,160 @@
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { IMakerTask, IVerificationCheck, IVerificationConfig } from '../types/maker.js';
+import { extractPatch } from './delivery.js';
+import { Semaphore } from './concurrency.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Longest command output kept in a check result. */
+const MAX_CHECK_OUTPUT = 2000;
+
+/** Worktrees of the same clone are added and removed one at a time. */
+const worktreeLock = new Semaphore(1);
+let worktreeCounter = 0;
+
+/**
+ * Runs the configured verification commands against a candidate.
+ * A patch candidate is applied to a throwaway worktree of `repoPath` first;
+ * any other candidate is passed to the commands on stdin. Commands run in
+ * order and stop at the first failure. Each command also sees the path of a
+ * file holding the candidate, the task description and its acceptance
+ * criteria in `MAKER_CANDIDATE_FILE`, `MAKER_TASK` and `MAKER_CRITERIA` (one
+ * criterion per line). The candidate goes through a file because a large one
+ * would not fit in the environment.
+ *
+ * @param timeoutSeconds - Time limit for all commands together, on top of the per-command `config.timeoutSeconds`.
+ * @returns One check per command that ran.
+ */
+export async function runLocalChecks(
+  content: string,
+  task: IMakerTask,
+  config: IVerificationConfig,
+  timeoutSeconds?: number
+): Promise<IVerificationCheck[]> {
+  const commands = config.commands || [];
+  if (commands.length === 0) {
+    return [];
+  }
+  const deadline = timeoutSeconds !== undefined ? Date.now() + timeoutSeconds * 1000 : Infinity;
+
+  const patch = extractPatch(content);
+  if (!patch) {
+    return runCommands(commands, config.repoPath || process.cwd(), content, task, config, deadline);
+  }
+  if (!config.repoPath) {
+    return [{ name: 'apply patch', passed: false, output: 'verification.repoPath is required to check a patch.' }];
+  }
+
+  const worktreePath = path.join(os.tmpdir(), `maker-verify-${process.pid}-${++worktreeCounter}`);
+  try {
+    await worktreeLock.run(() =>
+      execFileAsync('git', ['-C', config.repoPath!, 'worktree', 'add', '--detach', worktreePath])
+    );
+    const applied = await runProcess('git', ['apply', '--index', '-'], worktreePath, patch.endsWith('\n') ? patch : `${patch}\n`, {}, Math.min(60_000, deadline - Date.now()));
+    if (!applied.passed) {
+      return [{ name: 'apply patch', passed: false, output: applied.output }];
+    }
+    return await runCommands(commands, worktreePath, content, task, config, deadline);
+  } catch (error: any) {
+    return [{ name: 'apply patch', passed: false, output: error.message }];
+  } finally {
+    await worktreeLock.run(async () => {
+      try {
+        await execFileAsync('git', ['-C', config.repoPath!, 'worktree', 'remove', '--force', worktreePath]);
+      } catch {
+        // The worktree may never have been created
+      }
+    });
+  }
+}
+
+/**
+ * Runs each command in `cwd` until one fails or `deadline` (epoch ms) passes.
+ */
+async function runCommands(
+  commands: string[],
+  cwd: string,
+  content: string,
+  task: IMakerTask,
+  config: IVerificationConfig,
+  deadline: number
+): Promise<IVerificationCheck[]> {
+  const candidateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'maker-candidate-'));
+  const candidateFile = path.join(candidateDir, 'candidate');
+  await fs.writeFile(candidateFile, content, 'utf-8');
+  const env = {
+    MAKER_CANDIDATE_FILE: candidateFile,
+    MAKER_TASK: task.description,
+    MAKER_CRITERIA: (task.acceptanceCriteria || []).join('\n')
+  };
+  const timeoutMs = (config.timeoutSeconds ?? 300) * 1000;
+
+  const checks: IVerificationCheck[] = [];
+  try {
+    for (const command of commands) {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        checks.push({ name: command, passed: false, output: 'Not run: no time left for verification.' });
+        break;
+      }
+      const result = await runProcess(command, null, cwd, content, env, Math.min(timeoutMs, remainingMs));
+      checks.push({ name: command, passed: result.passed, output: result.output });
+      if (!result.passed) break;
+    }
+  } finally {
+    await fs.rm(candidateDir, { recursive: true, force: true });
+  }
+  return checks;
+}
+
+/**
+ * Runs a command (through the shell when `args` is null) and reports whether
+ * it exited with code 0, along with the tail of its combined output. The
+ * command gets its own process group so a timeout also stops its children.
+ */
+function runProcess(
+  command: string,
+  args: string[] | null,
+  cwd: string,
+  input: string,
+  env: Record<string, string>,
+  timeoutMs: number
+): Promise<{ passed: boolean; output: string }> {
+  return new Promise(resolve => {
+    const options = { cwd, detached: true, env: { ...process.env, ...env } };
+    const child = args ? spawn(command, args, options) : spawn(command, { ...options, shell: true });
+
+    let output = '';
+    const collect = (chunk: Buffer) => {
+      output = (output + chunk.toString()).slice(-MAX_CHECK_OUTPUT);
+    };
+    child.stdout?.on('data', collect);
+    child.stderr?.on('data', collect);
+    child.stdin?.on('error', () => {
+      // The command may exit without reading its input
+    });
+    child.stdin?.end(input);
+
+    const timer = setTimeout(() => {
+      output += `\nTimed out after ${timeoutMs / 1000}s.`;
+      try {
+        process.kill(-child.pid!, 'SIGTERM');
+      } catch {
+        // The command already exited
+      }
+    }, timeoutMs);
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      resolve({ passed: false, output: error.message });
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      resolve({ passed: code === 0, output: output.trim() });
+    });
+  });
+}
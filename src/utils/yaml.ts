@@ -0,0 +1,311 @@
+/**
+ * Subset of YAML used by plan files: block mappings and sequences, flow
+ * sequences of scalars, `|` literal blocks, quoted and plain scalars, and
+ * comments. Anchors, tags, multi-document streams and flow mappings other than
+ * `{}` are not supported.
+ */
+
+interface IYamlLine {
+  number: number;
+  indent: number;
+  text: string;
+  raw: string;
+}
+
+/**
+ * Parses a YAML document into plain values.
+ *
+ * @param source - The YAML text.
+ * @returns The parsed value, or null for an empty document.
+ * @throws Error naming the offending line when the document is outside the supported subset.
+ */
+export function parseYaml(source: string): unknown {
+  const lines: IYamlLine[] = source.split(/\r?\n/).map((raw, index) => {
+    const text = stripComment(raw).trimEnd();
+    return { number: index + 1, indent: raw.length - raw.trimStart().length, text: text.trim(), raw };
+  });
+  const parser = new YamlParser(lines.filter(line => line.text !== '---'));
+  return parser.parseDocument();
+}
+
+/**
+ * Serializes plain values (objects, arrays, strings, numbers, booleans and null) as YAML.
+ * Arrays of scalars are written in flow style; strings are quoted only when needed.
+ */
+export function stringifyYaml(value: unknown): string {
+  return `${renderBlock(value, '').join('\n')}\n`;
+}
+
+class YamlParser {
+  private position = 0;
+
+  constructor(private readonly lines: IYamlLine[]) {}
+
+  public parseDocument(): unknown {
+    const first = this.peek();
+    if (!first) {
+      return null;
+    }
+    const value = this.parseBlock(first.indent);
+    const rest = this.peek();
+    if (rest) {
+      throw this.error(rest, 'unexpected content');
+    }
+    return value;
+  }
+
+  /**
+   * Returns the next line that carries content, skipping blanks and comments.
+   */
+  private peek(): IYamlLine | undefined {
+    while (this.position < this.lines.length && this.lines[this.position].text === '') {
+      this.position++;
+    }
+    return this.lines[this.position];
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.peek()!;
+    return isSequenceItem(line.text) ? this.parseSequence(indent) : this.parseMapping(indent);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    let line = this.peek();
+    while (line && line.indent === indent && isSequenceItem(line.text)) {
+      const rest = line.text.substring(1).trimStart();
+      if (rest === '') {
+        this.position++;
+        const next = this.peek();
+        items.push(next && next.indent > indent ? this.parseBlock(next.indent) : null);
+      } else if (splitMappingEntry(rest)) {
+        // `- key: value` starts a mapping whose keys line up with `key`.
+        const nestedIndent = indent + (line.text.length - rest.length);
+        this.lines[this.position] = { ...line, indent: nestedIndent, text: rest };
+        items.push(this.parseMapping(nestedIndent));
+      } else {
+        this.position++;
+        items.push(this.parseScalar(rest, line));
+      }
+      line = this.peek();
+    }
+    if (line && line.indent > indent) {
+      throw this.error(line, 'bad indentation');
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    let line = this.peek();
+    while (line && line.indent === indent && !isSequenceItem(line.text)) {
+      const entry = splitMappingEntry(line.text);
+      if (!entry) {
+        throw this.error(line, 'expected "key: value"');
+      }
+      const [key, rest] = entry;
+      if (key in mapping) {
+        throw this.error(line, `duplicate key "${key}"`);
+      }
+      this.position++;
+
+      if (rest === '|' || rest === '|-') {
+        mapping[key] = this.parseLiteral(indent, rest === '|-');
+      } else if (rest === '') {
+        const next = this.peek();
+        if (next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.text)))) {
+          mapping[key] = this.parseBlock(next.indent);
+        } else {
+          mapping[key] = null;
+        }
+      } else {
+        mapping[key] = this.parseScalar(rest, line);
+      }
+      line = this.peek();
+    }
+    if (line && line.indent > indent) {
+      throw this.error(line, 'bad indentation');
+    }
+    return mapping;
+  }
+
+  /**
+   * Reads a `|` block: every following line indented deeper than the key.
+   */
+  private parseLiteral(indent: number, strip: boolean): string {
+    const block: IYamlLine[] = [];
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.raw.trim() !== '' && line.indent <= indent) break;
+      block.push(line);
+      this.position++;
+    }
+    const content = block.filter(line => line.raw.trim() !== '');
+    const blockIndent = content.length > 0 ? Math.min(...content.map(line => line.indent)) : 0;
+    const text = block.map(line => line.raw.substring(blockIndent)).join('\n').replace(/\n+$/, '');
+    return strip ? text : `${text}\n`;
+  }
+
+  private parseScalar(text: string, line: IYamlLine): unknown {
+    if (text === '{}') {
+      return {};
+    }
+    if (text.startsWith('[')) {
+      if (!text.endsWith(']')) {
+        throw this.error(line, 'unterminated flow sequence');
+      }
+      const inner = text.substring(1, text.length - 1).trim();
+      return inner === '' ? [] : splitFlowItems(inner).map(item => this.parseScalar(item, line));
+    }
+    if (text.startsWith('"')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw this.error(line, 'invalid double-quoted string');
+      }
+    }
+    if (text.startsWith("'")) {
+      if (!text.endsWith("'") || text.length < 2) {
+        throw this.error(line, 'unterminated single-quoted string');
+      }
+      return text.substring(1, text.length - 1).replace(/''/g, "'");
+    }
+    if (text.startsWith('{') || text.startsWith('&') || text.startsWith('*') || text.startsWith('!')) {
+      throw this.error(line, `unsupported syntax "${text}"`);
+    }
+    return parsePlainScalar(text);
+  }
+
+  private error(line: IYamlLine, message: string): Error {
+    return new Error(`Invalid YAML at line ${line.number}: ${message}.`);
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * Splits `key: value` into its key and the (possibly empty) value text.
+ */
+function splitMappingEntry(text: string): [string, string] | null {
+  const quoted = text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*:(?:\s+(.*))?$/);
+  if (quoted) {
+    const key = quoted[1].startsWith('"') ? JSON.parse(quoted[1]) : quoted[1].slice(1, -1).replace(/''/g, "'");
+    return [key, (quoted[2] || '').trim()];
+  }
+  const plain = text.match(/^([^\s"'[\]{}#-][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*))?$/);
+  return plain ? [plain[1], (plain[2] || '').trim()] : null;
+}
+
+/**
+ * Splits the inside of a flow sequence on commas outside quotes.
+ */
+function splitFlowItems(inner: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  items.push(current.trim());
+  return items;
+}
+
+/**
+ * Removes a trailing `# comment` that is outside quotes.
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.substring(0, i);
+    }
+  }
+  return line;
+}
+
+function parsePlainScalar(text: string): unknown {
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null' || text === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+function renderScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  const plainSafe = /^[^\s\-?:,[\]{}#&*!|>'"%@`][^\n]*$/.test(value) &&
+    !/(: |:$| #|\s$)/.test(value) &&
+    typeof parsePlainScalar(value) === 'string';
+  return plainSafe ? value : JSON.stringify(value);
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || value === undefined || typeof value !== 'object';
+}
+
+/**
+ * Scalars, arrays of scalars and empty objects fit on the line of their key.
+ */
+function isInline(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.every(isScalar);
+  }
+  return isScalar(value) || Object.keys(value as object).length === 0;
+}
+
+function renderInline(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(renderScalar).join(', ')}]`;
+  }
+  return isScalar(value) ? renderScalar(value) : '{}';
+}
+
+function renderBlock(value: unknown, indent: string): string[] {
+  if (isInline(value)) {
+    return [`${indent}${renderInline(value)}`];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (isInline(item)) {
+        return [`${indent}- ${renderInline(item)}`];
+      }
+      if (Array.isArray(item)) {
+        return [`${indent}-`, ...renderBlock(item, `${indent}  `)];
+      }
+      const [first, ...rest] = renderBlock(item, `${indent}  `);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .flatMap(([key, item]) => isInline(item)
+      ? [`${indent}${renderScalar(key)}: ${renderInline(item)}`]
+      : [`${indent}${renderScalar(key)}:`, ...renderBlock(item, `${indent}  `)]);
+}
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MakerOrchestrator } from '../src/orchestrator.js';
+import { MakerConfig } from '../src/types/maker.js';
+import { Cassette, ICassetteFile, useCassette } from '../src/bridges/command.js';
+import { WorktreeExecutor } from '../src/executors/worktree.js';
+import { execFileSync } from 'child_process';
+
+jest.setTimeout(60000);
+
+describe('Bridge cassettes', () => {
+  let tmpDir: string;
+  let binDir: string;
+  let cassettePath: string;
+  let originalPath: string | undefined;
+  let config: MakerConfig;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'maker-cassette-'));
+    binDir = path.join(tmpDir, 'bin');
+    fs.mkdirSync(binDir);
+    cassettePath = path.join(tmpDir, 'run.cassette.json');
+
+    const counter = path.join(tmpDir, 'counter');
+    fs.writeFileSync(path.join(binDir, 'jules'), [
+      '#!/usr/bin/env node',
+      "const fs = require('fs');",
+      'const args = process.argv.slice(2);',
+      "if (args[0] === 'start') {",
+      `  const next = (fs.existsSync(${JSON.stringify(counter)}) ? Number(fs.readFileSync(${JSON.stringify(counter)}, 'utf-8')) : 0) + 1;`,
+      `  fs.writeFileSync(${JSON.stringify(counter)}, String(next));`,
+      "  console.log('Session ID: sess-' + next + '\\nLink: https://jules.example/sess-' + next);",
+      "} else if (args[0] === 'status') {",
+      "  console.log('Status: completed\\nOutput: The recorded solution for ' + args[2].replace(/\\d+$/, 'N') + ' is long enough.');",
+      '}'
+    ].join('\n'), { mode: 0o755 });
+    fs.writeFileSync(path.join(binDir, 'gh'), [
+      '#!/usr/bin/env node',
+      "console.log('https://github.com/recorder/' + process.argv[4]);"
+    ].join('\n'), { mode: 0o755 });
+
+    originalPath = process.env.PATH;
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+
+    config = {
+      maxRecursionDepth: 1,
+      votingThreshold: 1,
+      redFlagSeverityThreshold: 'high',
+      modelName: 'test-model'
+    };
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should record a run and replay it deterministically without the CLIs', async () => {
+    const recorded = await new MakerOrchestrator().runMaker('Fail Task', {
+      ...config,
+      cassette: { mode: 'record', path: cassettePath }
+    });
+
+    expect(recorded.status).toBe('completed');
+    expect(recorded.metadata!.repoName).toBe('recorder/fail-task');
+
+    const cassette = JSON.parse(fs.readFileSync(cassettePath, 'utf-8')) as ICassetteFile;
+    expect(cassette.entries.map(entry => `${entry.command} ${entry.args[0]}`)).toEqual([
+      'gh repo',
+      'jules start', 'jules start', 'jules start',
+      'jules status', 'jules status', 'jules status'
+    ]);
+    expect(cassette.entries[1].stdout).toContain('Session ID: sess-');
+    expect(typeof cassette.entries[1].durationMs).toBe('number');
+
+    // Replay with no 'jules' or 'gh' on PATH.
+    process.env.PATH = tmpDir;
+    const replayed = await new MakerOrchestrator().runMaker('Fail Task', {
+      ...config,
+      cassette: { mode: 'replay', path: cassettePath }
+    });
+
+    expect(replayed.status).toBe(recorded.status);
+    expect(replayed.result).toBe(recorded.result);
+    expect(replayed.metadata!.repoName).toBe('recorder/fail-task');
+    expect(replayed.metadata!.voteCounts).toEqual(recorded.metadata!.voteCounts);
+  });
+
+  it('should fail replayed calls that were never recorded', async () => {
+    fs.writeFileSync(cassettePath, JSON.stringify({ version: 1, recordedAt: new Date().toISOString(), entries: [] }));
+    process.env.PATH = tmpDir;
+
+    const replayed = await new MakerOrchestrator().runMaker('Fail Task', {
+      ...config,
+      cassette: { mode: 'replay', path: cassettePath }
+    });
+
+    expect(replayed.metadata!.repoName).toBeUndefined();
+    expect(replayed.status).toBe('failed');
+  });
+
+  it('should only tolerate generated task IDs and temp paths when matching replayed calls', async () => {
+    const entry = (command: string, args: string[]) => ({
+      command, args, stdout: args.join(' '), stderr: '', exitCode: 0, startedAt: new Date().toISOString(), durationMs: 1
+    });
+    fs.writeFileSync(cassettePath, JSON.stringify({
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      entries: [
+        entry('git', ['-C', path.join(os.tmpdir(), 'maker-run-1'), 'checkout', '-b', 'maker/task-abc123']),
+        entry('jules', ['status', '--id', 'sess-1'])
+      ]
+    }));
+    const cassette = await Cassette.open('replay', cassettePath);
+
+    expect(cassette.take('git', ['-C', path.join(os.tmpdir(), 'maker-run-2'), 'checkout', '-b', 'maker/task-xyz789']).stdout)
+      .toContain('maker/task-abc123');
+    expect(() => cassette.take('jules', ['status', '--id', 'sess-2'])).toThrow('No recorded response for: jules status --id sess-2');
+  });
+
+  it('should continue a cassette when a run is resumed', async () => {
+    const entry = (args: string[]) => ({
+      command: 'jules', args, stdout: `call ${args.join(' ')}`, stderr: '', exitCode: 0, startedAt: new Date().toISOString(), durationMs: 1
+    });
+    fs.writeFileSync(cassettePath, JSON.stringify({
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      entries: [entry(['status', '--id', 'sess-1']), entry(['status', '--id', 'sess-1'])]
+    }));
+
+    const replay = await Cassette.open('replay', cassettePath);
+    replay.take('jules', ['status', '--id', 'sess-1']);
+    expect(replay.progress).toEqual({ used: [0] });
+
+    const resumed = await Cassette.open('replay', cassettePath, replay.progress);
+    expect(resumed.take('jules', ['status', '--id', 'sess-1'])).toBe(resumed.entries[1]);
+    expect(() => resumed.take('jules', ['status', '--id', 'sess-1'])).toThrow('No recorded response');
+
+    const recording = await Cassette.open('record', cassettePath, { used: [] });
+    await recording.record(entry(['status', '--id', 'sess-2']));
+    const saved = JSON.parse(fs.readFileSync(cassettePath, 'utf-8')) as ICassetteFile;
+    expect(saved.entries.map(recorded => recorded.args[2])).toEqual(['sess-1', 'sess-1', 'sess-2']);
+  });
+
+  it('should record every git call of the worktree executor', async () => {
+    const repoPath = path.join(tmpDir, 'repo');
+    fs.mkdirSync(repoPath);
+    const git = (...args: string[]) => execFileSync('git', ['-C', repoPath, ...args]);
+    git('init', '-q', '-b', 'main');
+    fs.writeFileSync(path.join(repoPath, 'README.md'), 'hello\n');
+    git('add', '.');
+    git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'init');
+
+    const cassette = await Cassette.open('record', cassettePath);
+    useCassette(cassette);
+    try {
+      const executor = new WorktreeExecutor({ repoPath, agentCommand: 'cat > answer.txt', worktreeRoot: tmpDir });
+      const result = await executor.start({ repoName: 'test/repo', prompt: 'the answer', wait: true });
+      expect(result.status).toBe('completed');
+    } finally {
+      useCassette(null);
+    }
+
+    expect(cassette.entries.map(entry => entry.args.slice(2, 4).join(' '))).toEqual([
+      'worktree add', 'checkout HEAD', 'checkout -b', 'rev-parse HEAD', 'add -A', 'diff --cached', 'worktree remove', 'branch -D'
+    ]);
+  });
+});
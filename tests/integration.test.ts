@@ -1,9 +1,11 @@
 import { MakerOrchestrator } from '../src/orchestrator.js';
-import { MakerConfig, IMakerTask } from '../src/types/maker.js';
+import { MakerConfig, IMakerTask, IMakerExecutor, IRunCostSummary } from '../src/types/maker.js';
 import * as julesBridge from '../src/bridges/jules.js';
 import * as githubBridge from '../src/bridges/github.js';
 import * as hitlUtils from '../src/utils/hitl.js';
+import { renderPlanOutline, loadPlanFile } from '../src/utils/plan.js';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 
 jest.setTimeout(60000);
@@ -16,15 +18,27 @@ jest.mock('../src/utils/hitl.js');
 describe('MakerOrchestrator Integration Test', () => {
   let orchestrator: MakerOrchestrator;
   let config: MakerConfig;
+  let tmpDir: string;
   const stateDir = path.join(process.cwd(), '.maker');
 
+  /**
+   * Writes scripted-executor rules to a fixture file in the test's temp directory.
+   */
+  const writeFixture = (rules: unknown[]): string => {
+    const fixturePath = path.join(tmpDir, 'fixture.json');
+    fs.writeFileSync(fixturePath, JSON.stringify({ rules }));
+    return fixturePath;
+  };
+
   beforeEach(() => {
     orchestrator = new MakerOrchestrator();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'maker-integration-'));
     config = {
       votingThreshold: 1,
       maxRecursionDepth: 1,
       redFlagSeverityThreshold: 'medium',
-      modelName: 'test-model'
+      modelName: 'test-model',
+      sampling: { pollIntervalSeconds: 0.01 }
     };
 
     // Mock GitHub repo creation
@@ -38,7 +52,7 @@ describe('MakerOrchestrator Integration Test', () => {
     (julesBridge.runJulesTask as jest.Mock).mockImplementation(async (args) => {
       const sessionId = `session-${Math.random().toString(36).substring(7)}`;
       
-      if (args.wait && args.description.includes('decompose')) {
+      if (args.description.includes('decompose')) {
         return {
           sessionId,
           status: 'completed',
@@ -88,6 +102,10 @@ console.log("Hello World");
     }
   });
 
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
   afterAll(() => {
     if (fs.existsSync(stateDir)) {
       fs.rmSync(stateDir, { recursive: true, force: true });
@@ -97,7 +115,7 @@ console.log("Hello World");
   it('should decompose, solve, and aggregate a high-level idea', async () => {
     const idea = 'Build a simple calculator';
     
-    const rootTask = await orchestrator.runMaker(idea, config);
+    const rootTask = await orchestrator.runMaker(idea, { ...config, composition: { mode: 'llm' } });
 
     // Verify root task
     expect(rootTask.description).toBe(idea);
@@ -115,6 +133,8 @@ console.log("Hello World");
 
     // Verify aggregation
     expect(rootTask.result).toBeDefined();
+    expect(rootTask.metadata!.compositionMethod).toBe('llm');
+    expect(rootTask.metadata!.concatenatedResult).toBe(rootTask.subtasks!.map(st => st.result).join('\n\n'));
 
     // Verify GitHub bridge was called
     expect(githubBridge.createRepo).toHaveBeenCalled();
@@ -138,4 +158,696 @@ console.log("Hello World");
 
     expect(rootTask.status).toBe('failed');
   });
+
+  it('should run fully offline with the scripted executor', async () => {
+    const fixturePath = writeFixture([
+      {
+        match: 'task decomposition agent',
+        responses: [JSON.stringify({
+          subtasks: ['Write the parser module', 'Write the evaluator module'],
+          rationale: 'Scripted decomposition',
+          isMinimal: false
+        })]
+      },
+      { responses: ['A scripted solution that is long enough.'] }
+    ]);
+
+    const julesCalls = (julesBridge.runJulesTask as jest.Mock).mock.calls.length;
+
+    const offlineOrchestrator = new MakerOrchestrator();
+    const rootTask = await offlineOrchestrator.runMaker('Build a simple calculator', {
+      ...config,
+      executor: { type: 'scripted', fixturePath }
+    });
+
+    expect(rootTask.status).toBe('completed');
+    expect(rootTask.subtasks!.map(st => st.result)).toEqual([
+      'A scripted solution that is long enough.',
+      'A scripted solution that is long enough.'
+    ]);
+    expect((julesBridge.runJulesTask as jest.Mock).mock.calls.length).toBe(julesCalls);
+  });
+
+  it('should keep decomposition and composition on the text executor', async () => {
+    const fixturePath = writeFixture([
+      {
+        match: 'task decomposition agent',
+        responses: [JSON.stringify({ subtasks: ['Write the parser module', 'Write the evaluator module'], rationale: 'Split' })]
+      },
+      { match: 'composition agent', responses: ['The parser and the evaluator, composed into one calculator.'] }
+    ]);
+    const samplePrompts: string[] = [];
+    let nextSession = 0;
+    const diffExecutor: IMakerExecutor = {
+      name: 'diff',
+      start: async options => {
+        samplePrompts.push(options.prompt);
+        return { sessionId: `diff-${nextSession++}`, status: 'started' };
+      },
+      getStatus: async sessionId => ({ sessionId, status: 'completed', output: '```diff\n+const parse = (input) => input.split(" ");\n```' }),
+      cancel: async () => undefined,
+      fetchOutput: async () => undefined
+    };
+
+    const splitOrchestrator = new MakerOrchestrator(diffExecutor);
+
+    const rootTask = await splitOrchestrator.runMaker('Build a simple calculator', {
+      ...config,
+      composition: { mode: 'llm' },
+      textExecutor: { type: 'scripted', fixturePath }
+    });
+
+    expect(rootTask.status).toBe('completed');
+    expect(rootTask.subtasks!.map(st => st.result)).toEqual([
+      '```diff\n+const parse = (input) => input.split(" ");\n```',
+      '```diff\n+const parse = (input) => input.split(" ");\n```'
+    ]);
+    expect(rootTask.result).toBe('The parser and the evaluator, composed into one calculator.');
+    expect(samplePrompts.length).toBeGreaterThan(0);
+    expect(samplePrompts.some(prompt => prompt.includes('decomposition agent') || prompt.includes('composition agent'))).toBe(false);
+  });
+
+  it('should open a pull request for each completed leaf in pull-request delivery mode', async () => {
+    const localPath = path.join(tmpDir, 'delivery');
+    fs.mkdirSync(path.join(localPath, '.git'), { recursive: true });
+
+    (githubBridge.createBranch as jest.Mock).mockResolvedValue(true);
+    (githubBridge.commitAndPush as jest.Mock).mockResolvedValue('abc123');
+    (githubBridge.createPullRequest as jest.Mock).mockImplementation(async (_path, _title, _body, head) => {
+      return `https://github.com/test-owner/test-repo/pull/${head}`;
+    });
+
+    const rootTask = await orchestrator.runMaker('Build a simple calculator', {
+      ...config,
+      delivery: { mode: 'pull-request', localPath }
+    });
+
+    expect(rootTask.status).toBe('completed');
+    for (const subtask of rootTask.subtasks!) {
+      expect(subtask.metadata!.pullRequestUrl).toBe(`https://github.com/test-owner/test-repo/pull/maker/${subtask.id}`);
+      expect(fs.existsSync(path.join(localPath, 'maker', `${subtask.id}.md`))).toBe(true);
+    }
+
+    const [, , body, head, base] = (githubBridge.createPullRequest as jest.Mock).mock.calls[0];
+    expect(head).toBe(`maker/${rootTask.subtasks![0].id}`);
+    expect(base).toBe('main');
+    expect(body).toContain(rootTask.subtasks![0].description);
+    expect(body).toContain('| Candidate | Votes |');
+    expect(body).toContain('Winner selected with');
+  });
+
+  it('should record repo context from the local bare repository provider', async () => {
+    const rootPath = path.join(tmpDir, 'repos');
+    const createRepoCalls = (githubBridge.createRepo as jest.Mock).mock.calls.length;
+
+    const rootTask = await orchestrator.runMaker('Fail Task', {
+      ...config,
+      repoProvider: { type: 'local', rootPath }
+    });
+
+    expect(rootTask.metadata!.repoName).toBe('local/fail-task');
+    expect(fs.existsSync(path.join(rootPath, 'fail-task.git'))).toBe(true);
+    expect((githubBridge.createRepo as jest.Mock).mock.calls.length).toBe(createRepoCalls);
+  });
+
+  it('should reuse an existing repository found by search', async () => {
+    (githubBridge.searchRepositories as jest.Mock).mockResolvedValue([
+      { owner: 'someone', name: 'tiny-calc', stars: 1, url: 'https://github.com/someone/tiny-calc' },
+      { owner: 'acme', name: 'calc', stars: 120, url: 'https://github.com/acme/calc' }
+    ]);
+    const createRepoCalls = (githubBridge.createRepo as jest.Mock).mock.calls.length;
+
+    const rootTask = await orchestrator.runMaker('Fail Task', {
+      ...config,
+      repoSelection: { mode: 'search', query: 'calculator', minStars: 100 }
+    });
+
+    expect(githubBridge.searchRepositories).toHaveBeenCalledWith('calculator', 10);
+    expect(rootTask.metadata!.repoName).toBe('acme/calc');
+    expect((githubBridge.createRepo as jest.Mock).mock.calls.length).toBe(createRepoCalls);
+  });
+
+  it('should process siblings concurrently within the in-flight session cap', async () => {
+    const runWithLimits = async (limits: Partial<MakerConfig>) => {
+      let inFlight = 0;
+      let peak = 0;
+      let nextSession = 0;
+      const executor: IMakerExecutor = {
+        name: 'counting',
+        start: async options => {
+          if (options.prompt.includes('task decomposition agent')) {
+            return {
+              sessionId: 'decompose',
+              status: 'completed',
+              output: JSON.stringify({ subtasks: ['Write parser', 'Write evaluator', 'Write printer'], rationale: 'Split' })
+            };
+          }
+          inFlight++;
+          peak = Math.max(peak, inFlight);
+          return { sessionId: `session-${nextSession++}`, status: 'started' };
+        },
+        getStatus: async sessionId => {
+          await new Promise(resolve => setTimeout(resolve, 200));
+          inFlight--;
+          return { sessionId, status: 'completed', output: 'A solution that is long enough.' };
+        },
+        cancel: async () => undefined,
+        fetchOutput: async () => undefined
+      };
+
+      const concurrentOrchestrator = new MakerOrchestrator(executor);
+
+      const rootTask = await concurrentOrchestrator.runMaker('Build a simple calculator', { ...config, ...limits });
+      expect(rootTask.status).toBe('completed');
+      return peak;
+    };
+
+    expect(await runWithLimits({ maxConcurrency: 3 })).toBeGreaterThan(3);
+    expect(await runWithLimits({ maxConcurrency: 3, maxInFlightSessions: 4 })).toBe(3);
+  });
+
+  it('should run subtasks in dependency order and block dependents of a failed task', async () => {
+    const fixturePath = writeFixture([
+      {
+        match: 'task decomposition agent',
+        responses: [JSON.stringify({
+          subtasks: ['Write tests', 'Implement parser', 'Publish docs'],
+          dependencies: { 0: [1], 2: [0] },
+          rationale: 'Tests need the parser',
+          isMinimal: false
+        })]
+      },
+      { match: 'Implement parser', responses: [{ status: 'failed', error: 'Simulated failure' }] },
+      { responses: ['A scripted solution that is long enough.'] }
+    ]);
+
+    const dagOrchestrator = new MakerOrchestrator();
+    const rootTask = await dagOrchestrator.runMaker('Build a simple calculator', {
+      ...config,
+      executor: { type: 'scripted', fixturePath }
+    });
+
+    const [tests, parser, docs] = rootTask.subtasks!;
+    expect(tests.dependencies).toEqual([parser.id]);
+    expect(docs.dependencies).toEqual([tests.id]);
+    expect(parser.status).toBe('failed');
+    expect(tests.status).toBe('blocked');
+    expect(tests.metadata!.blockedBy).toEqual([parser.id]);
+    expect(docs.status).toBe('blocked');
+    expect(rootTask.status).toBe('failed');
+  });
+
+  it('should send earlier sibling results as context to later subtasks', async () => {
+    const firstCall = (julesBridge.runJulesTask as jest.Mock).mock.calls.length;
+
+    const rootTask = await orchestrator.runMaker('Build a simple calculator', config);
+
+    const prompts: string[] = (julesBridge.runJulesTask as jest.Mock).mock.calls
+      .slice(firstCall)
+      .map(([args]) => args.description);
+    const testPrompt = prompts.find(prompt => prompt.endsWith('## Your task\nTask 3: Test'))!;
+
+    expect(testPrompt).toContain('## Overall goal\nBuild a simple calculator');
+    expect(testPrompt).toContain('### Task 1: Design');
+    expect(testPrompt).toContain('### Task 2: Implement');
+    expect(rootTask.subtasks![2].metadata!.context.sources).toEqual([rootTask.subtasks![0].id, rootTask.subtasks![1].id]);
+  });
+
+  it('should fall back to concatenation when no composition wins', async () => {
+    const fixturePath = writeFixture([
+      {
+        match: 'task decomposition agent',
+        responses: [JSON.stringify({ subtasks: ['Write parser', 'Write evaluator'], rationale: 'Split', isMinimal: false })]
+      },
+      { match: 'composition agent', responses: [{ status: 'failed', error: 'Simulated failure' }] },
+      // The evaluator prompt also mentions the parser as upstream context, so it is matched first.
+      { match: 'Write evaluator', responses: ['The evaluator solution is here.'] },
+      { responses: ['The parser solution is here.'] }
+    ]);
+
+    const rootTask = await new MakerOrchestrator().runMaker('Build a simple calculator', {
+      ...config,
+      executor: { type: 'scripted', fixturePath },
+      composition: { mode: 'llm' }
+    });
+
+    expect(rootTask.status).toBe('completed');
+    expect(rootTask.metadata!.compositionMethod).toBe('concatenation');
+    expect(rootTask.result).toBe('The parser solution is here.\n\nThe evaluator solution is here.');
+    expect(rootTask.metadata!.concatenatedResult).toBe(rootTask.result);
+  });
+
+  it('should emit lifecycle events and apply plugins loaded from config', async () => {
+    const fixturePath = writeFixture([
+      {
+        match: 'task decomposition agent',
+        responses: [JSON.stringify({ subtasks: ['Write parser', 'Write evaluator'], rationale: 'Split', isMinimal: false })]
+      },
+      { responses: ['A scripted solution that is long enough.'] }
+    ]);
+    const pluginPath = path.join(tmpDir, 'plugin.cjs');
+    fs.writeFileSync(pluginPath, `module.exports = (options) => ({
+      name: 'policy',
+      hooks: {
+        beforeAccept: (task, result) => task.description === options.blocked ? { veto: 'Not allowed.' } : undefined
+      }
+    });`);
+
+    const pluginOrchestrator = new MakerOrchestrator();
+    const events: string[] = [];
+    for (const name of ['run:started', 'task:decomposed', 'winner:chosen', 'task:completed', 'task:failed', 'run:finished'] as const) {
+      pluginOrchestrator.events.on(name, () => { events.push(name); });
+    }
+    const samples: string[] = [];
+    pluginOrchestrator.use({
+      name: 'metrics',
+      events: { 'sample:received': ({ result }) => { samples.push(result.sessionId); } }
+    });
+
+    const rootTask = await pluginOrchestrator.runMaker('Build a simple calculator', {
+      ...config,
+      executor: { type: 'scripted', fixturePath },
+      composition: { mode: 'concatenate' },
+      plugins: [{ module: pluginPath, options: { blocked: 'Write evaluator' } }]
+    });
+
+    expect(rootTask.subtasks!.map(st => st.status)).toEqual(['completed', 'failed']);
+    expect(rootTask.subtasks![1].metadata!.veto).toEqual({ plugin: 'policy', hook: 'beforeAccept', reason: 'Not allowed.' });
+    expect(rootTask.subtasks![1].result).toBeUndefined();
+    expect(rootTask.status).toBe('failed');
+    expect(events[0]).toBe('run:started');
+    expect(events.slice(1, 3)).toEqual(['task:decomposed', 'winner:chosen']);
+    expect(events.filter(name => name === 'task:failed')).toHaveLength(2);
+    expect(events[events.length - 1]).toBe('run:finished');
+    expect(samples.length).toBeGreaterThan(0);
+  });
+
+  it('should reject unknown canonicalizers before starting any session', async () => {
+    (julesBridge.runJulesTask as jest.Mock).mockClear();
+    await expect(orchestrator.runMaker('Build a simple calculator', {
+      ...config,
+      canonicalization: { canonicalizers: ['whitespace', 'sorted-lines'] }
+    })).rejects.toThrow('Unknown canonicalizer "sorted-lines".');
+    expect(julesBridge.runJulesTask).not.toHaveBeenCalled();
+
+    orchestrator.use({ name: 'sorting', canonicalizers: { 'sorted-lines': text => text.split('\n').sort().join('\n') } });
+    const rootTask = await orchestrator.runMaker('Build a simple calculator', {
+      ...config,
+      canonicalization: { canonicalizers: ['whitespace', 'sorted-lines'] }
+    });
+    expect(rootTask.status).toBe('completed');
+  });
+
+  it('should reject voting margin settings that are out of range before starting any session', async () => {
+    (julesBridge.runJulesTask as jest.Mock).mockClear();
+    await expect(orchestrator.runMaker('Build a simple calculator', {
+      ...config,
+      votingThreshold: 'auto',
+      reliability: { target: NaN }
+    })).rejects.toThrow('reliability.target must be a number between 0 and 1.');
+    await expect(orchestrator.runMaker('Build a simple calculator', { ...config, votingThreshold: NaN }))
+      .rejects.toThrow('votingThreshold must be a positive integer or "auto".');
+    expect(julesBridge.runJulesTask).not.toHaveBeenCalled();
+  });
+
+  it('should plan the full tree without voting and execute the plan on resume', async () => {
+    const fixturePath = writeFixture([
+      {
+        match: 'Task to decompose: "Build a simple calculator"',
+        responses: [JSON.stringify({
+          subtasks: ['Write the parser module', 'Write the evaluator module'],
+          dependencies: { 1: [0] },
+          rationale: 'Split',
+          isMinimal: false
+        })]
+      },
+      { match: 'task decomposition agent', responses: [JSON.stringify({ subtasks: [], rationale: 'Small enough', isMinimal: true })] },
+      { responses: ['A scripted solution that is long enough.'] }
+    ]);
+    const statePath = path.join(tmpDir, 'state.json');
+    const planConfig: MakerConfig = { ...config, executor: { type: 'scripted', fixturePath }, composition: { mode: 'concatenate' } };
+    const planOrchestrator = new MakerOrchestrator();
+    let samples = 0;
+    planOrchestrator.events.on('sample:received', () => { samples++; });
+
+    const planned = await planOrchestrator.planMaker('Build a simple calculator', planConfig);
+
+    expect(samples).toBe(0);
+    expect(planned.status).toBe('pending');
+    expect(planned.subtasks!.map(st => [st.status, st.metadata!.isMinimal])).toEqual([['pending', true], ['pending', true]]);
+    const [parser, evaluator] = planned.subtasks!;
+    expect(renderPlanOutline(planned)).toBe([
+      '# Build a simple calculator {#root repo=test-owner/test-repo}',
+      '',
+      `- Write the parser module {#${parser.id} .minimal}`,
+      `- Write the evaluator module {#${evaluator.id} .minimal after=${parser.id}}`,
+      ''
+    ].join('\n'));
+
+    fs.writeFileSync(statePath, JSON.stringify({ rootTask: planned, config: planConfig, metadata: {} }));
+    const executed = await planOrchestrator.resumeMaker(statePath);
+
+    expect(samples).toBeGreaterThan(0);
+    expect(executed.status).toBe('completed');
+    expect(executed.subtasks!.map(st => st.result)).toEqual([
+      'A scripted solution that is long enough.',
+      'A scripted solution that is long enough.'
+    ]);
+  });
+
+  it('should execute a hand-edited plan without decomposing planned or minimal tasks', async () => {
+    const fixturePath = writeFixture([
+      { match: 'task decomposition agent', responses: [JSON.stringify({ subtasks: ['Unexpected'], rationale: 'Split', isMinimal: false })] },
+      { match: 'Write the evaluator', responses: ['The evaluator solution is here.'] },
+      { responses: ['The parser solution is here.'] }
+    ]);
+    const planPath = path.join(tmpDir, 'plan.yaml');
+    fs.writeFileSync(planPath, [
+      'description: Build a simple calculator',
+      'repo: octocat/calculator',
+      'tasks:',
+      '  # Reordered by hand: the evaluator waits for the parser.',
+      '  - description: Write the evaluator',
+      '    minimal: true',
+      '    after: [parser]',
+      '  - id: parser',
+      '    description: Write the parser',
+      '    minimal: true'
+    ].join('\n'));
+    const createRepo = (githubBridge.createRepo as jest.Mock).mock.calls.length;
+
+    const plan = await loadPlanFile(planPath);
+    const executed = await new MakerOrchestrator().executePlan(plan, {
+      ...config,
+      executor: { type: 'scripted', fixturePath },
+      composition: { mode: 'concatenate' }
+    });
+
+    expect(executed.status).toBe('completed');
+    expect(executed.subtasks!.map(st => [st.description, st.result, st.subtasks])).toEqual([
+      ['Write the evaluator', 'The evaluator solution is here.', undefined],
+      ['Write the parser', 'The parser solution is here.', undefined]
+    ]);
+    expect(executed.subtasks![0].metadata!.context.sources).toEqual(['parser']);
+    expect(executed.subtasks![0].metadata!.repoName).toBe('octocat/calculator');
+    expect((githubBridge.createRepo as jest.Mock).mock.calls.length).toBe(createRepo);
+  });
+
+  it('should reject a winner that fails verification and keep voting', async () => {
+    const fixturePath = writeFixture([
+      {
+        match: 'Task to decompose: "Build a simple calculator"',
+        responses: [JSON.stringify({
+          subtasks: ['Write the parser module'],
+          acceptanceCriteria: { 0: ['Handles negative numbers'] },
+          rationale: 'Split',
+          isMinimal: false
+        })]
+      },
+      { match: 'task decomposition agent', responses: [JSON.stringify({ subtasks: [], rationale: 'Small enough', isMinimal: true })] },
+      // Verification prompts mention the task too, so they are matched first.
+      { match: 'verification agent', responses: [JSON.stringify({ passed: true, reason: 'Negative numbers are handled.' })] },
+      {
+        match: 'Write the parser module',
+        responses: [
+          'A parser that ignores the minus sign.', 'A parser that ignores the minus sign.', 'A parser that ignores the minus sign.',
+          'A parser that handles negative numbers.'
+        ]
+      }
+    ]);
+    const verifyOrchestrator = new MakerOrchestrator();
+    const prompts: string[] = [];
+    const rejected: string[] = [];
+    verifyOrchestrator.events.on('candidate:rejected', ({ candidate }) => { rejected.push(candidate.content); });
+    verifyOrchestrator.use({ name: 'prompts', hooks: { beforeVote: (_task, prompt) => { prompts.push(prompt); } } });
+
+    const rootTask = await verifyOrchestrator.runMaker('Build a simple calculator', {
+      ...config,
+      executor: { type: 'scripted', fixturePath },
+      composition: { mode: 'concatenate' },
+      verification: { commands: ['grep -q handles'], llm: true }
+    });
+
+    const parser = rootTask.subtasks![0];
+    expect(parser.status).toBe('completed');
+    expect(parser.acceptanceCriteria).toEqual(['Handles negative numbers']);
+    expect(prompts[0]).toContain('## Acceptance criteria\n- Handles negative numbers');
+    expect(parser.result).toBe('A parser that handles negative numbers.');
+    expect(rejected).toEqual(['A parser that ignores the minus sign.']);
+    expect(parser.metadata!.rejectedCandidates[0].verification.checks).toEqual([
+      { name: 'grep -q handles', passed: false, output: '' }
+    ]);
+    expect(parser.metadata!.verification.checks.map((check: any) => [check.name, check.passed])).toEqual([
+      ['grep -q handles', true],
+      ['acceptance criteria', true]
+    ]);
+  });
+
+  describe('failure recovery', () => {
+    /**
+     * Executor whose samples for prompts ending in `failingTask` fail the first `failures` times.
+     */
+    const createFlakyOrchestrator = (failingTask: string, failures: number, subtasks: string[] = []) => {
+      let failed = 0;
+      let nextSession = 0;
+      const executor: IMakerExecutor = {
+        name: 'flaky',
+        start: async options => {
+          if (options.prompt.includes('task decomposition agent')) {
+            return { sessionId: 'decompose', status: 'completed', output: JSON.stringify({ subtasks, rationale: 'Split', isMinimal: false }) };
+          }
+          if (options.prompt.endsWith(failingTask) && failed < failures) {
+            failed++;
+            return { sessionId: 'failed', status: 'failed', error: 'Simulated failure' };
+          }
+          return { sessionId: `session-${nextSession++}`, status: 'started' };
+        },
+        getStatus: async sessionId => ({ sessionId, status: 'completed', output: 'A solution that is long enough.' }),
+        cancel: async () => undefined,
+        fetchOutput: async () => undefined
+      };
+
+      return new MakerOrchestrator(executor);
+    };
+
+    it('should retry voting with a fresh sample budget', async () => {
+      const rootTask = await createFlakyOrchestrator('Flaky Task', 30).runMaker('Flaky Task', {
+        ...config,
+        recovery: { strategies: ['retry'] }
+      });
+
+      expect(rootTask.status).toBe('completed');
+      expect(rootTask.metadata!.recoveryAttempts).toEqual([
+        expect.objectContaining({ strategy: 'retry', outcome: 'completed' })
+      ]);
+    });
+
+    it('should stop recovering once the attempt cap is reached', async () => {
+      const rootTask = await createFlakyOrchestrator('Flaky Task', Infinity).runMaker('Flaky Task', {
+        ...config,
+        recovery: { strategies: ['retry', 'retry'], maxAttempts: 1 }
+      });
+
+      expect(rootTask.status).toBe('failed');
+      expect(rootTask.metadata!.recoveryAttempts).toHaveLength(1);
+    });
+
+    it('should re-decompose a failed leaf into finer steps', async () => {
+      const rootTask = await createFlakyOrchestrator('Flaky Task', Infinity, ['Step one', 'Step two']).runMaker('Flaky Task', {
+        ...config,
+        recovery: { strategies: ['redecompose'] }
+      });
+
+      expect(rootTask.status).toBe('completed');
+      expect(rootTask.subtasks!.map(st => st.status)).toEqual(['completed', 'completed']);
+      expect(rootTask.metadata!.recoveryAttempts).toEqual([
+        expect.objectContaining({ strategy: 'redecompose', outcome: 'completed', detail: 'Split into 2 subtasks.' })
+      ]);
+    });
+
+    it('should escalate to the user, who can provide the result', async () => {
+      (hitlUtils.askUserEscalation as jest.Mock).mockResolvedValue({ action: 'result', text: 'A hand-written result.' });
+
+      const rootTask = await createFlakyOrchestrator('Flaky Task', Infinity).runMaker('Flaky Task', {
+        ...config,
+        recovery: { strategies: ['escalate'] }
+      });
+
+      expect(rootTask.status).toBe('completed');
+      expect(rootTask.result).toBe('A hand-written result.');
+      expect(rootTask.metadata!.resultSource).toBe('user');
+    });
+
+    it('should tell the escalated user why the task failed', async () => {
+      (hitlUtils.askUserEscalation as jest.Mock).mockResolvedValue({ action: 'fail' });
+      const vetoOrchestrator = createFlakyOrchestrator('Flaky Task', 0);
+      vetoOrchestrator.use({ name: 'policy', hooks: { beforeAccept: () => ({ veto: 'Not allowed.' }) } });
+
+      const rootTask = await vetoOrchestrator.runMaker('Flaky Task', {
+        ...config,
+        recovery: { strategies: ['escalate'] }
+      });
+
+      expect(rootTask.status).toBe('failed');
+      expect(hitlUtils.askUserEscalation).toHaveBeenCalledWith(rootTask, "plugin 'policy' vetoed beforeAccept: Not allowed.");
+    });
+  });
+
+  it('should stop cleanly when the session budget is spent and finish on resume', async () => {
+    const budgetConfig: MakerConfig = {
+      ...config,
+      composition: { mode: 'concatenate' },
+      budget: { maxSessions: 6 }
+    };
+    const costSummaries: IRunCostSummary[] = [];
+    orchestrator.events.on('run:finished', ({ costSummary }) => { costSummaries.push(costSummary); });
+
+    // One decomposition and one voting batch fit; the second batch would need a 7th session.
+    const stopped = await orchestrator.runMaker('Build a simple calculator', budgetConfig);
+
+    expect(stopped.status).toBe('in-progress');
+    expect(stopped.subtasks!.map(st => st.status)).toEqual(['completed', 'in-progress', 'pending']);
+    expect(costSummaries[0]).toMatchObject({ sessions: 4, stoppedBy: 'sessions' });
+
+    const statePath = path.join(tmpDir, 'state.json');
+    fs.writeFileSync(statePath, JSON.stringify({ rootTask: stopped, config: budgetConfig, metadata: {} }));
+    const resumed = await orchestrator.resumeMaker(statePath);
+
+    expect(resumed.status).toBe('completed');
+    expect(resumed.subtasks!.map(st => st.status)).toEqual(['completed', 'completed', 'completed']);
+    expect(costSummaries[1]).toMatchObject({ sessions: 6 });
+    expect(costSummaries[1].stoppedBy).toBeUndefined();
+  });
+
+  it('should cancel outstanding sessions and reset in-flight tasks when aborted', async () => {
+    const controller = new AbortController();
+    const cancelled: string[] = [];
+    let nextSession = 0;
+    const executor: IMakerExecutor = {
+      name: 'never-finishing',
+      start: async options => {
+        setTimeout(() => controller.abort(), 10);
+        return options.prompt.includes('task decomposition agent')
+          ? { sessionId: 'decomposition', status: 'completed', output: JSON.stringify({ subtasks: [], isMinimal: true }) }
+          : { sessionId: `session-${nextSession++}`, status: 'started' };
+      },
+      getStatus: async sessionId => ({ sessionId, status: 'pending' }),
+      cancel: async sessionId => {
+        cancelled.push(sessionId);
+      },
+      fetchOutput: async () => undefined
+    };
+
+    const startedAt = Date.now();
+    const rootTask = await new MakerOrchestrator(executor).runMaker('Slow Task', config, { signal: controller.signal });
+
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+    expect(cancelled).toEqual(['session-0', 'session-1', 'session-2']);
+    expect(rootTask.status).toBe('pending');
+  });
+
+  it('should choose k per voting round from the target reliability', async () => {
+    const rootTask = await orchestrator.runMaker('Build a simple calculator', {
+      ...config,
+      votingThreshold: 'auto',
+      composition: { mode: 'llm' },
+      reliability: { target: 0.9, priorAccuracy: 0.9 }
+    });
+
+    expect(rootTask.status).toBe('completed');
+    const first = rootTask.subtasks![0].metadata!.reliability;
+    const last = rootTask.subtasks![2].metadata!.reliability;
+    expect(first).toMatchObject({ accuracy: 0.9, steps: 4, target: 0.9 });
+    expect(first.predictedSuccess).toBeGreaterThanOrEqual(0.9);
+    expect(rootTask.subtasks![0].metadata!.voteCounts[0]).toBeGreaterThanOrEqual(first.k);
+    // Unanimous rounds raise the accuracy estimate.
+    expect(last.accuracy).toBeGreaterThan(first.accuracy);
+    expect(rootTask.metadata!.composition.reliability.k).toBeLessThanOrEqual(first.k);
+  });
+
+  it('should record sample and voting round timeouts apart from failures', async () => {
+    const cancelled: string[] = [];
+    let nextSession = 0;
+    const executor: IMakerExecutor = {
+      name: 'half-finishing',
+      start: async options => options.prompt.includes('task decomposition agent')
+        ? { sessionId: 'decomposition', status: 'completed', output: JSON.stringify({ subtasks: [], isMinimal: true }) }
+        : { sessionId: `session-${nextSession++}`, status: 'started' },
+      // One sample of each batch fails, the others never finish.
+      getStatus: async sessionId => Number(sessionId.split('-')[1]) % 3 === 0
+        ? { sessionId, status: 'failed', error: 'Agent crashed' }
+        : { sessionId, status: 'pending' },
+      cancel: async sessionId => {
+        cancelled.push(sessionId);
+      },
+      fetchOutput: async () => undefined
+    };
+
+    const rootTask = await new MakerOrchestrator(executor).runMaker('Slow Task', {
+      ...config,
+      timeouts: { sampleSeconds: 0.05, votingRoundSeconds: 0.3 }
+    });
+
+    expect(rootTask.status).toBe('failed');
+    expect(hitlUtils.askUserVeto).not.toHaveBeenCalled();
+    const stats = rootTask.metadata!.sampleStats;
+    expect(stats.timedOut).toBe(2 * stats.failed);
+    expect(stats.votes).toBe(0);
+    expect(cancelled).toHaveLength(stats.timedOut);
+    expect(rootTask.metadata!.timeouts.map((timeout: any) => timeout.phase)).toEqual(['sample', 'voting-round']);
+  });
+
+  it('should cancel a timed-out decomposition session and release its session slot', async () => {
+    const cancelled: string[] = [];
+    let nextSession = 0;
+    const executor: IMakerExecutor = {
+      name: 'stuck-decomposition',
+      start: async options => options.prompt.includes('task decomposition agent')
+        ? { sessionId: 'decomposition', status: 'started' }
+        : { sessionId: `session-${nextSession++}`, status: 'started' },
+      getStatus: async sessionId => sessionId === 'decomposition'
+        ? { sessionId, status: 'pending' }
+        : { sessionId, status: 'completed', output: 'A solution that is long enough.' },
+      cancel: async sessionId => {
+        cancelled.push(sessionId);
+      },
+      fetchOutput: async () => undefined
+    };
+    const limitedOrchestrator = new MakerOrchestrator(executor);
+
+    const rootTask = await limitedOrchestrator.runMaker('Build a simple calculator', {
+      ...config,
+      maxInFlightSessions: 1,
+      timeouts: { decompositionSeconds: 0.1 }
+    });
+
+    expect(cancelled).toEqual(['decomposition']);
+    expect(rootTask.metadata!.timeouts.map((timeout: any) => timeout.phase)).toEqual(['decomposition']);
+    expect(rootTask.subtasks).toHaveLength(3);
+    expect(rootTask.subtasks!.every(subtask => subtask.status === 'completed')).toBe(true);
+    expect(rootTask.status).toBe('completed');
+  });
+
+  it('should stop at the run deadline and leave the run resumable', async () => {
+    const cancelled: string[] = [];
+    let nextSession = 0;
+    const executor: IMakerExecutor = {
+      name: 'never-finishing',
+      start: async () => ({ sessionId: `session-${nextSession++}`, status: 'started' }),
+      getStatus: async sessionId => ({ sessionId, status: 'pending' }),
+      cancel: async sessionId => {
+        cancelled.push(sessionId);
+      },
+      fetchOutput: async () => undefined
+    };
+    const deadlineOrchestrator = new MakerOrchestrator(executor);
+    let costSummary: IRunCostSummary | undefined;
+    deadlineOrchestrator.events.on('run:finished', event => { costSummary = event.costSummary; });
+
+    const rootTask = await deadlineOrchestrator.runMaker('Slow Task', { ...config, timeouts: { runSeconds: 0.2 } });
+
+    expect(rootTask.status).toBe('pending');
+    expect(cancelled.length).toBeGreaterThan(0);
+    expect(costSummary!.stoppedBy).toBe('deadline');
+  });
 });
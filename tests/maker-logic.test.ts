@@ -1,9 +1,36 @@
-import { VotingAgent } from '../src/agents/voting.js';
+import { VotingAgent, samplesNeeded, resolveSampling } from '../src/agents/voting.js';
+import { CompositionAgent } from '../src/agents/composition.js';
 import { checkRedFlags } from '../src/utils/red-flagging.js';
 import { TaskTreeManager } from '../src/utils/task-tree.js';
-import { IMakerTask, MakerConfig } from '../src/types/maker.js';
+import { HttpExecutor } from '../src/executors/http.js';
+import { WorktreeExecutor } from '../src/executors/worktree.js';
+import { createTextExecutor } from '../src/executors/index.js';
+import { parseJulesOutput } from '../src/bridges/jules-parser.js';
+import { IssueSync } from '../src/utils/issue-sync.js';
+import { LocalBareRepoProvider } from '../src/providers/local.js';
+import { searchRepositories } from '../src/bridges/github.js';
+import { Semaphore } from '../src/utils/concurrency.js';
+import { buildTaskContext, buildTaskPrompt } from '../src/utils/context.js';
+import { RunBudget, BudgetExceededError, estimateTokens } from '../src/utils/budget.js';
+import { MakerEventBus } from '../src/utils/events.js';
+import { runSession, RunDeadline } from '../src/utils/timeouts.js';
+import { RunCancelledError } from '../src/utils/cancellation.js';
+import { PluginHost } from '../src/utils/plugins.js';
+import { parseYaml, stringifyYaml } from '../src/utils/yaml.js';
+import { parsePlan, buildTaskTree, renderPlan } from '../src/utils/plan.js';
+import { runLocalChecks } from '../src/utils/verification.js';
+import { parseArgs } from '../src/utils/args.js';
+import { ReliabilityEstimator, requiredK, stepSuccess, fixedVotingThreshold, checkVotingMargin } from '../src/utils/reliability.js';
+import { BUILTIN_CANONICALIZERS, CandidatePool, createCanonicalizer, similarity } from '../src/utils/canonicalize.js';
+import { IMakerExecutor, IMakerTask, ISamplingConfig, MakerConfig } from '../src/types/maker.js';
 import * as julesBridge from '../src/bridges/jules.js';
 import * as hitlUtils from '../src/utils/hitl.js';
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { AddressInfo } from 'net';
 
 jest.mock('../src/bridges/jules.js');
 jest.mock('../src/utils/hitl.js');
@@ -103,6 +130,141 @@ describe('MAKER Logic Tests', () => {
       expect(result.winnerIndex).toBe(0);
       expect(mockTask.result).toBe('Solution B');
     });
+
+    it('should end without a winner instead of asking the user when the veto is skipped', async () => {
+      const getJulesTaskStatusMock = julesBridge.getJulesTaskStatus as jest.Mock;
+      (julesBridge.runJulesTask as jest.Mock).mockImplementation(async () => ({
+        sessionId: `s-${Math.random().toString(36).substring(7)}`
+      }));
+      let toggle = true;
+      getJulesTaskStatusMock.mockImplementation(async (sessionId) => {
+        toggle = !toggle;
+        return { sessionId, status: 'completed', output: toggle ? 'Solution A' : 'Solution B' };
+      });
+
+      const promise = votingAgent.runVotingRound({ ...mockTask, sampling: { maxRounds: 2 } }, mockConfig, { skipVeto: true });
+      for (let i = 0; i < 20; i++) {
+        await jest.advanceTimersByTimeAsync(2000);
+      }
+      const result = await promise;
+
+      expect(hitlUtils.askUserVeto).not.toHaveBeenCalled();
+      expect(result.winnerIndex).toBe(-1);
+    });
+
+    it('should only launch the samples the leader needs in adaptive mode', async () => {
+      const runJulesTaskMock = julesBridge.runJulesTask as jest.Mock;
+      const getJulesTaskStatusMock = julesBridge.getJulesTaskStatus as jest.Mock;
+      runJulesTaskMock.mockImplementation(async () => ({ sessionId: `s-${runJulesTaskMock.mock.calls.length}` }));
+      const outputs = ['Solution A', 'Solution B', 'Solution A', 'Solution A'];
+      getJulesTaskStatusMock.mockImplementation(async sessionId => ({ sessionId, status: 'completed', output: outputs.shift() }));
+
+      mockTask.sampling = { mode: 'adaptive', batchSize: 5 };
+      const promise = votingAgent.runVotingRound(mockTask, mockConfig);
+      for (let i = 0; i < 5; i++) {
+        await jest.advanceTimersByTimeAsync(2000);
+      }
+      const result = await promise;
+
+      // k = 2: two samples split 1-1, then two more are needed and both agree.
+      expect(runJulesTaskMock).toHaveBeenCalledTimes(4);
+      expect(result.votes).toEqual({ 0: 3, 1: 1 });
+      expect(samplesNeeded({}, 3)).toBe(3);
+      expect(samplesNeeded({ 0: 2, 1: 1 }, 3)).toBe(2);
+      expect(samplesNeeded({ 0: 4 }, 3)).toBe(1);
+    });
+
+    it('should back off between polls and let tasks override the run settings', async () => {
+      const runJulesTaskMock = julesBridge.runJulesTask as jest.Mock;
+      const getJulesTaskStatusMock = julesBridge.getJulesTaskStatus as jest.Mock;
+      runJulesTaskMock.mockResolvedValueOnce({ sessionId: 's1' });
+      getJulesTaskStatusMock.mockResolvedValueOnce({ sessionId: 's1', status: 'pending' });
+      getJulesTaskStatusMock.mockResolvedValueOnce({ sessionId: 's1', status: 'completed', output: 'Solution A' });
+
+      const config: MakerConfig = {
+        ...mockConfig,
+        votingThreshold: 1,
+        sampling: { batchSize: 4, pollIntervalSeconds: 1, backoffFactor: 2, maxPollIntervalSeconds: 10 }
+      };
+      mockTask.sampling = { batchSize: 1 };
+      expect(resolveSampling(config, mockTask)).toMatchObject({ mode: 'fixed', batchSize: 1, maxRounds: 10, pollIntervalSeconds: 1 });
+
+      const promise = votingAgent.runVotingRound(mockTask, config);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(getJulesTaskStatusMock).toHaveBeenCalledTimes(1);
+      // The second poll comes 2s after the first, not 1s.
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(getJulesTaskStatusMock).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(getJulesTaskStatusMock).toHaveBeenCalledTimes(2);
+
+      const result = await promise;
+      expect(runJulesTaskMock).toHaveBeenCalledTimes(1);
+      expect(result.winnerIndex).toBe(0);
+    });
+
+    it('should reject sampling settings that would poll in a tight loop or draw no samples', () => {
+      const withSampling = (sampling: ISamplingConfig): MakerConfig => ({ ...mockConfig, sampling });
+      expect(() => resolveSampling(withSampling({ pollIntervalSeconds: 0 }), mockTask)).toThrow('sampling.pollIntervalSeconds must be a positive number');
+      expect(() => resolveSampling(withSampling({ batchSize: NaN }), mockTask)).toThrow('sampling.batchSize must be a positive number');
+      expect(() => resolveSampling(withSampling({ backoffFactor: 0.5 }), mockTask)).toThrow('sampling.backoffFactor must be at least 1');
+      expect(() => resolveSampling(mockConfig, { ...mockTask, sampling: { maxRounds: NaN } })).toThrow(`Task ${mockTask.id} sampling.maxRounds must be a positive number`);
+      expect(resolveSampling(withSampling({ backoffFactor: 1, batchSize: undefined }), mockTask)).toMatchObject({ backoffFactor: 1, batchSize: 3 });
+    });
+
+    it('should count samples that differ only in chatter and whitespace as one candidate', async () => {
+      const runJulesTaskMock = julesBridge.runJulesTask as jest.Mock;
+      const getJulesTaskStatusMock = julesBridge.getJulesTaskStatus as jest.Mock;
+
+      runJulesTaskMock.mockResolvedValueOnce({ sessionId: 's1' });
+      runJulesTaskMock.mockResolvedValueOnce({ sessionId: 's2' });
+      runJulesTaskMock.mockResolvedValueOnce({ sessionId: 's3' });
+      getJulesTaskStatusMock.mockResolvedValueOnce({ sessionId: 's1', status: 'completed', output: 'Session: s1\nUse   a hash map.' });
+      getJulesTaskStatusMock.mockResolvedValueOnce({ sessionId: 's2', status: 'completed', output: 'Use a hash map.  \n' });
+      getJulesTaskStatusMock.mockResolvedValueOnce({ sessionId: 's3', status: 'completed', output: 'Use a sorted list.' });
+
+      const promise = votingAgent.runVotingRound(mockTask, {
+        ...mockConfig,
+        votingThreshold: 1,
+        canonicalization: { canonicalizers: ['strip-chatter', 'whitespace'] }
+      });
+      await jest.advanceTimersByTimeAsync(2000);
+      const result = await promise;
+
+      expect(result.votes).toEqual({ 0: 2, 1: 1 });
+      expect(mockTask.result).toBe('Session: s1\nUse   a hash map.');
+      expect(mockTask.metadata!.candidates[0]).toMatchObject({
+        canonical: 'Use a hash map.',
+        members: [{ sessionId: 's1', similarity: 1 }, { sessionId: 's2', similarity: 1 }]
+      });
+    });
+
+    it('should give verification the rest of the round and not reject a leader it ran out of time on', async () => {
+      const runJulesTaskMock = julesBridge.runJulesTask as jest.Mock;
+      const getJulesTaskStatusMock = julesBridge.getJulesTaskStatus as jest.Mock;
+      for (const sessionId of ['s1', 's2', 's3']) {
+        runJulesTaskMock.mockResolvedValueOnce({ sessionId });
+        getJulesTaskStatusMock.mockResolvedValueOnce({ sessionId, status: 'completed', output: 'Solution A' });
+      }
+      const verify = jest.fn(async (_content: string, timeoutSeconds?: number) => {
+        await new Promise(resolve => setTimeout(resolve, timeoutSeconds! * 1000));
+        return { passed: false, checks: [{ name: 'slow check', passed: false, output: 'Timed out' }] };
+      });
+
+      const promise = votingAgent.runVotingRound(mockTask, mockConfig, { timeoutSeconds: 30, verify });
+      for (let i = 0; i < 20; i++) {
+        await jest.advanceTimersByTimeAsync(2000);
+      }
+      const result = await promise;
+
+      expect(result.timedOut).toBe(true);
+      expect(verify).toHaveBeenCalledTimes(1);
+      const [, timeoutSeconds] = verify.mock.calls[0];
+      expect(timeoutSeconds).toBeGreaterThan(25);
+      expect(timeoutSeconds).toBeLessThanOrEqual(30);
+      expect(mockTask.metadata!.rejectedCandidates).toBeUndefined();
+      expect(hitlUtils.askUserVeto).not.toHaveBeenCalled();
+    });
   });
 
   describe('Red-flagging Logic', () => {
@@ -224,5 +386,924 @@ const x = 10;
       expect(leaves.map(l => l.id)).toContain('sub1');
       expect(leaves.map(l => l.id)).toContain('sub2-1');
     });
+
+    it('should reject dependencies that are not siblings or that form a cycle', () => {
+      const root: IMakerTask = { id: 'root', description: 'root', status: 'pending' };
+      manager.addTask('root', { id: 'a', description: 'a', status: 'pending' }, root);
+      manager.addTask('root', { id: 'b', description: 'b', status: 'pending', dependencies: ['a'] }, root);
+      manager.addTask('root', { id: 'c', description: 'c', status: 'pending' }, root);
+
+      expect(() => manager.addTask('root', { id: 'd', description: 'd', status: 'pending', dependencies: ['x'] }, root))
+        .toThrow('not a sibling');
+      expect(() => manager.addTask('b', { id: 'b1', description: 'b1', status: 'pending', dependencies: ['b1'] }, root))
+        .toThrow('cannot depend on itself');
+
+      manager.addDependency(root, 'c', 'b');
+      expect(() => manager.addDependency(root, 'a', 'c')).toThrow('would create a cycle');
+      expect(() => manager.addDependency(root, 'a', 'root')).toThrow('must be siblings');
+      expect(manager.findTask(root, 'a')!.dependencies).toBeUndefined();
+    });
+
+    it('should order siblings after their prerequisites', () => {
+      const siblings: IMakerTask[] = [
+        { id: 'tests', description: 'tests', status: 'pending', dependencies: ['parser', 'evaluator'] },
+        { id: 'parser', description: 'parser', status: 'pending' },
+        { id: 'evaluator', description: 'evaluator', status: 'pending', dependencies: ['parser'] },
+        { id: 'docs', description: 'docs', status: 'pending' }
+      ];
+
+      expect(manager.getExecutionOrder(siblings).map(task => task.id)).toEqual(['parser', 'evaluator', 'tests', 'docs']);
+
+      siblings[1].dependencies = ['tests'];
+      expect(() => manager.getExecutionOrder(siblings)).toThrow('dependency cycle');
+    });
+  });
+
+  describe('HttpExecutor', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: any[];
+
+    beforeAll(async () => {
+      requests = [];
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          const parsed = JSON.parse(body);
+          requests.push({ url: req.url, auth: req.headers.authorization, body: parsed });
+          if (parsed.messages[0].content === 'break') {
+            res.writeHead(500);
+            res.end('boom');
+            return;
+          }
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ choices: [{ message: { content: `echo: ${parsed.messages[0].content}` } }] }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should send chat completion requests with model and temperature', async () => {
+      const executor = new HttpExecutor({ baseUrl, model: 'test-model', apiKey: 'secret' });
+
+      const result = await executor.start({ repoName: 'test/repo', prompt: 'hello', wait: true, temperature: 0.3 });
+
+      expect(result.status).toBe('completed');
+      expect(result.output).toBe('echo: hello');
+      expect(requests[0].url).toBe('/v1/chat/completions');
+      expect(requests[0].auth).toBe('Bearer secret');
+      expect(requests[0].body.model).toBe('test-model');
+      expect(requests[0].body.temperature).toBe(0.3);
+    });
+
+    it('should report background requests through getStatus', async () => {
+      const executor = new HttpExecutor({ baseUrl, model: 'test-model' });
+
+      const started = await executor.start({ repoName: 'test/repo', prompt: 'later' });
+      expect(started.status).toBe('started');
+
+      let status = await executor.getStatus(started.sessionId);
+      for (let i = 0; i < 50 && status.status === 'started'; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        status = await executor.getStatus(started.sessionId);
+      }
+
+      expect(status.status).toBe('completed');
+      expect(await executor.fetchOutput(started.sessionId)).toBe('echo: later');
+    });
+
+    it('should surface HTTP errors as failed sessions', async () => {
+      const executor = new HttpExecutor({ baseUrl, model: 'test-model' });
+
+      const result = await executor.start({ repoName: 'test/repo', prompt: 'break', wait: true });
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('HTTP 500');
+    });
+  });
+
+  describe('Executor selection', () => {
+    const baseConfig: MakerConfig = { votingThreshold: 2, maxRecursionDepth: 3, redFlagSeverityThreshold: 'medium', modelName: 'test-model' };
+
+    it('should answer the text phases with Jules when samples are worktree diffs', () => {
+      const worktree = new WorktreeExecutor({ repoPath: '/tmp/clone', agentCommand: 'true' });
+      const http = new HttpExecutor({ baseUrl: 'http://localhost', model: 'test-model' });
+
+      expect(createTextExecutor(baseConfig, worktree).name).toBe('jules');
+      expect(createTextExecutor(baseConfig, http)).toBe(http);
+      expect(createTextExecutor({ ...baseConfig, textExecutor: { type: 'http' } }, worktree).name).toBe('http');
+      expect(() => createTextExecutor({ ...baseConfig, textExecutor: { type: 'worktree' } }, http)).toThrow('cannot be the text executor');
+    });
+  });
+
+  describe('WorktreeExecutor', () => {
+    let tmpDir: string;
+    let repoPath: string;
+
+    beforeAll(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'maker-worktree-'));
+      repoPath = path.join(tmpDir, 'repo');
+      fs.mkdirSync(repoPath);
+      const git = (...args: string[]) => execFileSync('git', ['-C', repoPath, ...args]);
+      git('init', '-q', '-b', 'main');
+      fs.writeFileSync(path.join(repoPath, 'README.md'), 'hello\n');
+      git('add', '.');
+      git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'init');
+    });
+
+    afterAll(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should capture the diff produced by the agent command', async () => {
+      const executor = new WorktreeExecutor({
+        repoPath,
+        agentCommand: 'cat > answer.txt',
+        worktreeRoot: tmpDir
+      });
+
+      const result = await executor.start({ repoName: 'test/repo', prompt: 'the answer', wait: true });
+
+      expect(result.status).toBe('completed');
+      expect(result.output).toContain('```diff');
+      expect(result.output).toContain('+the answer');
+      expect(execFileSync('git', ['-C', repoPath, 'worktree', 'list']).toString().trim().split('\n')).toHaveLength(1);
+    });
+
+    it('should capture the changes an agent command commits', async () => {
+      const executor = new WorktreeExecutor({
+        repoPath,
+        agentCommand: 'cat > committed.txt && git add . && git -c user.name=agent -c user.email=agent@example.com commit -q -m work && echo staged > staged.txt',
+        worktreeRoot: tmpDir
+      });
+
+      const result = await executor.start({ repoName: 'test/repo', prompt: 'the committed answer', wait: true });
+
+      expect(result.status).toBe('completed');
+      expect(result.output).toContain('+the committed answer');
+      expect(result.output).toContain('+staged');
+    });
+
+    it('should fail samples that produce no changes', async () => {
+      const executor = new WorktreeExecutor({ repoPath, agentCommand: 'true', worktreeRoot: tmpDir });
+
+      const result = await executor.start({ repoName: 'test/repo', prompt: 'nothing', wait: true });
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('no changes');
+    });
+
+    it('should stop the processes started by the agent command on cancel', async () => {
+      const started = path.join(tmpDir, 'started');
+      const late = path.join(tmpDir, 'late');
+      const executor = new WorktreeExecutor({
+        repoPath,
+        agentCommand: `(sleep 1; touch ${late}) & touch ${started}; wait`,
+        worktreeRoot: tmpDir
+      });
+
+      const { sessionId } = await executor.start({ repoName: 'test/repo', prompt: 'slow', wait: false });
+      while (!fs.existsSync(started)) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      await executor.cancel(sessionId);
+      while ((await executor.getStatus(sessionId)).status === 'started') {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      await new Promise(resolve => setTimeout(resolve, 1500));
+
+      expect((await executor.getStatus(sessionId)).status).toBe('failed');
+      expect(fs.existsSync(late)).toBe(false);
+    });
+  });
+
+  describe('Jules output parsing', () => {
+    it('should parse the line grammar', () => {
+      const parsed = parseJulesOutput([
+        'Fetching repository...',
+        'Session ID: abc-123',
+        'Status: Completed',
+        'Link: https://jules.google.com/session/abc-123',
+        'PR: https://github.com/o/r/pull/7',
+        'Output: first line',
+        'completed: 0 failed tests'
+      ].join('\n'));
+
+      expect(parsed.sessionId).toBe('abc-123');
+      expect(parsed.state).toBe('completed');
+      expect(parsed.consoleLink).toBe('https://jules.google.com/session/abc-123');
+      expect(parsed.prLink).toBe('https://github.com/o/r/pull/7');
+      expect(parsed.finalOutput).toBe('first line\ncompleted: 0 failed tests');
+      expect(parsed.errors).toEqual([]);
+    });
+
+    it('should not misclassify output text that mentions other states', () => {
+      const parsed = parseJulesOutput('Status: in progress\nLog: completed: 0 failed tests');
+      expect(parsed.state).toBe('started');
+    });
+
+    it('should parse JSON output', () => {
+      const parsed = parseJulesOutput(JSON.stringify({
+        session_id: 'xyz',
+        state: 'FAILED',
+        url: 'https://jules.google.com/session/xyz',
+        output: 'Build broke'
+      }));
+
+      expect(parsed.sessionId).toBe('xyz');
+      expect(parsed.state).toBe('failed');
+      expect(parsed.consoleLink).toBe('https://jules.google.com/session/xyz');
+      expect(parsed.finalOutput).toBe('Build broke');
+    });
+
+    it('should report values that do not fit the grammar', () => {
+      const parsed = parseJulesOutput('Session ID: not valid!\nStatus: sleeping');
+
+      expect(parsed.sessionId).toBeUndefined();
+      expect(parsed.state).toBeUndefined();
+      expect(parsed.errors).toEqual(['Invalid session ID "not valid!".', 'Unrecognized state "sleeping".']);
+    });
+  });
+
+  describe('GitHub bridge with a fake gh', () => {
+    let binDir: string;
+    let logPath: string;
+    let originalPath: string | undefined;
+
+    const ghCalls = (): string[][] => fs.readFileSync(logPath, 'utf-8')
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+
+    beforeEach(() => {
+      binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'maker-gh-'));
+      logPath = path.join(binDir, 'calls.log');
+      fs.writeFileSync(path.join(binDir, 'gh'), [
+        '#!/usr/bin/env node',
+        "const fs = require('fs');",
+        'const args = process.argv.slice(2);',
+        `fs.appendFileSync(${JSON.stringify(logPath)}, JSON.stringify(args) + '\\n');`,
+        "if (args[0] === 'issue' && args[1] === 'create') {",
+        `  const counter = ${JSON.stringify(path.join(binDir, 'counter'))};`,
+        "  const next = (fs.existsSync(counter) ? Number(fs.readFileSync(counter, 'utf-8')) : 0) + 1;",
+        '  fs.writeFileSync(counter, String(next));',
+        "  console.log('https://github.com/o/r/issues/' + next);",
+        '}',
+        "if (args[0] === 'search' && args[1] === 'repos') {",
+        '  console.log(JSON.stringify([',
+        "    { owner: { login: 'acme' }, name: 'calc', description: 'A calculator', stargazersCount: 42, url: 'https://github.com/acme/calc' },",
+        "    { owner: { login: 'bob' }, name: 'calc2', description: '', stargazersCount: 0, url: 'https://github.com/bob/calc2' }",
+        '  ]));',
+        '}'
+      ].join('\n'), { mode: 0o755 });
+      originalPath = process.env.PATH;
+      process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+    });
+
+    afterEach(() => {
+      process.env.PATH = originalPath;
+      fs.rmSync(binDir, { recursive: true, force: true });
+    });
+
+    it('should mirror the tree as linked issues and close completed tasks', async () => {
+      const sync = new IssueSync('o/r', new TaskTreeManager());
+      const child: IMakerTask = { id: 'child', description: 'Write parser', status: 'pending' };
+      const root: IMakerTask = { id: 'root', description: 'Build calculator', status: 'in-progress', subtasks: [child] };
+
+      await sync.syncTask(root, root);
+      await sync.syncTask(child, root);
+
+      expect(root.metadata!.issue.number).toBe(1);
+      expect(child.metadata!.issue.number).toBe(2);
+
+      let calls = ghCalls();
+      const rootCreate = calls.find(args => args[1] === 'create' && args.includes('[MAKER] Build calculator'))!;
+      expect(rootCreate).toEqual(expect.arrayContaining(['maker:epic', 'maker:in-progress']));
+      const childCreate = calls.find(args => args[1] === 'create' && args.includes('Write parser'))!;
+      expect(childCreate[childCreate.indexOf('--body') + 1]).toContain('Parent: #1');
+      expect(root.metadata!.issue.body).toContain('- [ ] #2');
+
+      child.status = 'completed';
+      child.result = 'The parser result';
+      await sync.syncTask(child, root);
+
+      calls = ghCalls();
+      expect(calls).toContainEqual(['issue', 'edit', '2', '--repo', 'o/r', '--add-label', 'maker:completed', '--remove-label', 'maker:pending']);
+      expect(calls).toContainEqual(['issue', 'close', '2', '--repo', 'o/r', '--comment', '### Result\n\nThe parser result']);
+      expect(root.metadata!.issue.body).toContain('- [x] #2');
+      expect(child.metadata!.issue.closed).toBe(true);
+    });
+
+    it('should return structured repository search results', async () => {
+      const results = await searchRepositories('calculator', 5);
+
+      expect(results).toEqual([
+        { owner: 'acme', name: 'calc', description: 'A calculator', stars: 42, url: 'https://github.com/acme/calc' },
+        { owner: 'bob', name: 'calc2', description: undefined, stars: 0, url: 'https://github.com/bob/calc2' }
+      ]);
+      expect(ghCalls()).toContainEqual([
+        'search', 'repos', 'calculator', '--limit', '5', '--json', 'owner,name,description,stargazersCount,url'
+      ]);
+    });
+  });
+
+  describe('LocalBareRepoProvider', () => {
+    let rootPath: string;
+
+    beforeEach(() => {
+      rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'maker-local-provider-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(rootPath, { recursive: true, force: true });
+    });
+
+    it('should create, clone, push and record a pull request offline', async () => {
+      const provider = new LocalBareRepoProvider(rootPath);
+      const clonePath = path.join(rootPath, 'clone');
+
+      const repo = await provider.createRepo('calculator', 'A calculator');
+      expect(repo).toEqual({ owner: 'local', name: 'calculator', cloneUrl: path.join(rootPath, 'calculator.git') });
+
+      expect(await provider.cloneRepo('local/calculator', clonePath)).toBe(true);
+      execFileSync('git', ['-C', clonePath, 'config', 'user.name', 'test']);
+      execFileSync('git', ['-C', clonePath, 'config', 'user.email', 'test@example.com']);
+
+      expect(await provider.createBranch(clonePath, 'maker/task-1')).toBe(true);
+      fs.writeFileSync(path.join(clonePath, 'result.md'), 'result\n');
+      const sha = await provider.commitAndPush(clonePath, 'maker/task-1', 'Add result');
+
+      const pushed = execFileSync('git', ['-C', repo.cloneUrl!, 'rev-parse', 'maker/task-1']).toString().trim();
+      expect(pushed).toBe(sha);
+
+      const url = await provider.createPullRequest(clonePath, 'Add result', 'Body', 'maker/task-1');
+      expect(url).toMatch(/^file:\/\/.*pull-requests\/calculator\/maker-task-1\.md$/);
+      expect(fs.readFileSync(new URL(url), 'utf-8')).toContain('Base: main');
+    });
+
+    it('should reuse an existing repository', async () => {
+      const provider = new LocalBareRepoProvider(rootPath);
+      await provider.createRepo('calculator');
+      await expect(provider.createRepo('calculator')).resolves.toMatchObject({ name: 'calculator' });
+    });
+  });
+
+  describe('Concurrency utilities', () => {
+    it('should grant multi-permit acquisitions all at once and in order', async () => {
+      const semaphore = new Semaphore(3);
+      const order: string[] = [];
+
+      await semaphore.acquire(2);
+      const batch = semaphore.acquire(3).then(() => order.push('batch'));
+      const single = semaphore.acquire(1).then(() => order.push('single'));
+
+      semaphore.release(2);
+      await batch;
+      expect(order).toEqual(['batch']);
+
+      semaphore.release(3);
+      await single;
+      expect(order).toEqual(['batch', 'single']);
+      await expect(semaphore.acquire(4)).rejects.toThrow('Cannot acquire 4 permits');
+    });
+  });
+
+  describe('Upstream context', () => {
+    const manager = new TaskTreeManager();
+    const buildTree = (): IMakerTask => ({
+      id: 'root',
+      description: 'Build a calculator',
+      status: 'in-progress',
+      subtasks: [
+        { id: 'design', description: 'Design the grammar', status: 'completed', result: 'D'.repeat(300) },
+        {
+          id: 'core',
+          description: 'Implement the core',
+          status: 'in-progress',
+          subtasks: [
+            { id: 'parser', description: 'Write the parser', status: 'completed', result: 'P'.repeat(300) },
+            { id: 'evaluator', description: 'Write the evaluator', status: 'pending' }
+          ]
+        }
+      ]
+    });
+
+    it('should include the goal, ancestors and upstream results in the prompt', () => {
+      const root = buildTree();
+      const evaluator = manager.findTask(root, 'evaluator')!;
+
+      const context = buildTaskContext(evaluator, root, manager);
+      const prompt = buildTaskPrompt(evaluator, context);
+
+      expect(context.sources).toEqual(['design', 'parser']);
+      expect(context.truncated).toBe(false);
+      expect(prompt).toContain('## Overall goal\nBuild a calculator');
+      expect(prompt).toContain('## Parent tasks\n1. Implement the core');
+      expect(prompt.indexOf('### Design the grammar')).toBeLessThan(prompt.indexOf('### Write the parser'));
+      expect(prompt.endsWith('## Your task\nWrite the evaluator')).toBe(true);
+      expect(buildTaskPrompt(root, buildTaskContext(root, root, manager))).toBe('Build a calculator');
+    });
+
+    it('should only use declared prerequisites when siblings have dependencies', () => {
+      const root = buildTree();
+      const core = manager.findTask(root, 'core')!;
+      core.subtasks!.push({ id: 'docs', description: 'Write docs', status: 'pending', dependencies: ['evaluator'] });
+
+      expect(buildTaskContext(core.subtasks![2], root, manager).sources).toEqual(['design']);
+    });
+
+    it('should keep the nearest results whole with drop-oldest truncation', () => {
+      const root = buildTree();
+      const evaluator = manager.findTask(root, 'evaluator')!;
+
+      const context = buildTaskContext(evaluator, root, manager, { maxChars: 460 });
+
+      expect(context.truncated).toBe(true);
+      expect(context.sources).toEqual(['parser']);
+      expect(context.text).toContain('P'.repeat(300));
+      expect(context.text.length).toBeLessThanOrEqual(460);
+    });
+
+    it('should share the budget between results with even truncation', () => {
+      const root = buildTree();
+      const evaluator = manager.findTask(root, 'evaluator')!;
+
+      const context = buildTaskContext(evaluator, root, manager, { maxChars: 500, truncation: 'even' });
+
+      expect(context.truncated).toBe(true);
+      expect(context.sources).toEqual(['design', 'parser']);
+      expect(context.text).toContain('more characters]');
+      expect(context.text).not.toContain('P'.repeat(300));
+    });
+
+    it('should cut the subtask results in a composition prompt to the context budget', async () => {
+      const votingAgent = new VotingAgent();
+      const runVotingRound = jest.spyOn(votingAgent, 'runVotingRound').mockResolvedValue({ winnerIndex: -1, confidence: 0, rationale: '', votes: {} });
+      const core = manager.findTask(buildTree(), 'core')!;
+      core.subtasks![1] = { ...core.subtasks![1], status: 'completed', result: 'E'.repeat(300) };
+
+      await new CompositionAgent(votingAgent).composeResults(core, {
+        votingThreshold: 1,
+        maxRecursionDepth: 1,
+        redFlagSeverityThreshold: 'medium',
+        modelName: 'test-model',
+        context: { maxChars: 400 }
+      });
+
+      const prompt = runVotingRound.mock.calls[0][2]!.prompt!;
+      expect(prompt).toContain(`### 2. Write the evaluator\n${'E'.repeat(300)}`);
+      expect(prompt).toContain('### 1. Write the parser');
+      expect(prompt).toContain('more characters]');
+      expect(prompt).not.toContain('P'.repeat(300));
+    });
+  });
+
+  describe('CompositionAgent', () => {
+    it('should keep its vote apart from the parent\'s records and sample at the text executor\'s temperature', async () => {
+      const output = 'The parser and the evaluator, composed into one calculator.';
+      const temperatures: (number | undefined)[] = [];
+      const textExecutor: IMakerExecutor = {
+        name: 'text',
+        start: async options => {
+          temperatures.push(options.temperature);
+          return { sessionId: `text-${temperatures.length}`, status: 'started' };
+        },
+        getStatus: async sessionId => ({ sessionId, status: 'completed', output }),
+        cancel: async () => undefined,
+        fetchOutput: async () => undefined
+      };
+      const agent = new CompositionAgent(new VotingAgent());
+      agent.setExecutor(textExecutor);
+      const parent: IMakerTask = {
+        id: 'parent',
+        description: 'Build a calculator',
+        status: 'in-progress',
+        metadata: { voteCounts: { 1: 2 }, sampleStats: { samples: 2, votes: 2, redFlagged: 0, failed: 0, timedOut: 0 } },
+        subtasks: [{ id: 'parser', description: 'Write the parser', status: 'completed', result: 'The parser.' }]
+      };
+
+      const result = await agent.composeResults(parent, {
+        votingThreshold: 2,
+        maxRecursionDepth: 1,
+        redFlagSeverityThreshold: 'high',
+        modelName: 'test-model',
+        executor: { type: 'jules', temperature: 0.9 },
+        textExecutor: { type: 'http', temperature: 0.4 },
+        sampling: { pollIntervalSeconds: 0.01 }
+      });
+
+      expect(result.winnerIndex).toBe(0);
+      expect(parent.result).toBe(output);
+      expect(parent.metadata!.voteCounts).toEqual({ 1: 2 });
+      expect(parent.metadata!.sampleStats.samples).toBe(2);
+      expect(parent.metadata!.composition).toMatchObject({ voteCounts: { 0: 3 }, sampleStats: { samples: 3, votes: 3 } });
+      expect(temperatures).toEqual([0, 0.4, 0.4]);
+    });
+  });
+
+  describe('RunBudget', () => {
+    it('should refuse a batch that would exceed the session budget', () => {
+      const budget = new RunBudget({ maxSessions: 4 });
+
+      budget.reserveSessions(3);
+      expect(() => budget.reserveSessions(3)).toThrow(BudgetExceededError);
+      budget.reserveSessions(1);
+      expect(budget.summary()).toEqual({ sessions: 4, estimatedTokens: 0, elapsedSeconds: 0 });
+    });
+
+    it('should stop once the token or wall-clock budget is spent', () => {
+      const tokenBudget = new RunBudget({ maxTokens: 10 });
+      tokenBudget.recordText('x'.repeat(40));
+      expect(estimateTokens('x'.repeat(40))).toBe(10);
+      expect(() => tokenBudget.reserveSessions()).toThrow(expect.objectContaining({ limit: 'tokens' }));
+
+      const clockBudget = new RunBudget({ maxWallClockSeconds: 5 }, Date.now() - 10_000);
+      expect(() => clockBudget.check()).toThrow(expect.objectContaining({ limit: 'wall-clock' }));
+      expect(clockBudget.summary('wall-clock')).toMatchObject({ elapsedSeconds: 10, stoppedBy: 'wall-clock' });
+    });
+  });
+
+  describe('Canonicalization', () => {
+    it('should strip executor chatter but keep code blocks intact', () => {
+      const output = '[2024-05-01T10:00:00Z] starting\nStatus: completed\nOutput: Done.\n```\nStatus: kept\n```';
+      expect(BUILTIN_CANONICALIZERS['strip-chatter'](output)).toBe('Done.\n```\nStatus: kept\n```');
+    });
+
+    it('should extract the final answer', () => {
+      expect(BUILTIN_CANONICALIZERS['final-answer']('Thinking...\n```ts\nfirst\n```\n```ts\nsecond\n```')).toBe('second');
+      expect(BUILTIN_CANONICALIZERS['final-answer']('Let me see.\nFinal answer: 42')).toBe('42');
+    });
+
+    it('should reprint JSON and TypeScript so formatting does not matter', () => {
+      const json = BUILTIN_CANONICALIZERS.json;
+      expect(json('{ "b": 1,\n  "a": [1, 2] }')).toBe(json('{"a":[1,2],"b":1}'));
+      expect(json('Here:\n```json\n{ "b": 1, "a": 2 }\n```')).toBe('Here:\n```json\n{"a":2,"b":1}\n```');
+
+      const typescript = BUILTIN_CANONICALIZERS.typescript;
+      const first = "```ts\n// Greets\nconst greet = (name: string) => `hi ${name}`;\nexport default { greet, };\n```";
+      const second = '```ts\nconst greet = (name: string) =>\n  `hi ${name}`\n/* default */ export default { greet }\n```';
+      expect(typescript(first)).toBe(typescript(second));
+      expect(typescript("const s = 'it\\'s'")).toBe(typescript('const s = "it\'s";'));
+    });
+
+    it('should chain canonicalizers and reject unknown names', () => {
+      const canonicalize = createCanonicalizer(['final-answer', 'custom'], { custom: text => text.toUpperCase() });
+      expect(canonicalize('Answer: yes ')).toBe('YES');
+      expect(() => createCanonicalizer(['missing'])).toThrow('Unknown canonicalizer "missing".');
+    });
+
+    it('should cluster samples by similarity above the threshold', () => {
+      expect(similarity('a b c d', 'd c b a')).toBe(1);
+      expect(similarity('a b', 'c d')).toBe(0);
+
+      const pool = new CandidatePool({ similarityThreshold: 0.8 });
+      expect(pool.assign('Add the parser and the evaluator modules', 's1')).toEqual({ index: 0, isNew: true });
+      expect(pool.assign('Add the parser and the evaluator module', 's2')).toEqual({ index: 0, isNew: false });
+      expect(pool.assign('Rewrite everything in Rust', 's3')).toEqual({ index: 1, isNew: true });
+      expect(pool.candidates[0].members!.map(member => member.sessionId)).toEqual(['s1', 's2']);
+      expect(pool.candidates[0].members![1].similarity).toBeGreaterThanOrEqual(0.8);
+    });
+  });
+
+  describe('Automatic voting margin', () => {
+    const config: MakerConfig = {
+      votingThreshold: 'auto',
+      maxRecursionDepth: 3,
+      redFlagSeverityThreshold: 'medium',
+      modelName: 'test-model',
+      reliability: { target: 0.95, priorAccuracy: 0.8 }
+    };
+
+    it('should pick the smallest k that reaches the target over all steps', () => {
+      expect(stepSuccess(0.8, 1)).toBeCloseTo(0.8);
+      expect(stepSuccess(0.8, 3)).toBeCloseTo(64 / 65);
+
+      const k = requiredK(0.8, 10, 0.95);
+      expect(k).toBe(4);
+      expect(Math.pow(stepSuccess(0.8, k), 10)).toBeGreaterThanOrEqual(0.95);
+      expect(Math.pow(stepSuccess(0.8, k - 1), 10)).toBeLessThan(0.95);
+
+      expect(requiredK(0.8, 1000, 0.95)).toBeGreaterThan(k);
+      expect(requiredK(0.5, 10, 0.95, 1, 7)).toBe(7);
+      expect(requiredK(1, 10, 0.95, 2)).toBe(2);
+      expect(fixedVotingThreshold(config)).toBe(requiredK(0.8, 1, 0.95));
+      expect(fixedVotingThreshold({ ...config, votingThreshold: 3 })).toBe(3);
+    });
+
+    it('should count steps and lower the accuracy estimate on split votes and red flags', () => {
+      const leaf = (id: string): IMakerTask => ({ id, description: id, status: 'pending' });
+      const root: IMakerTask = { id: 'root', description: 'root', status: 'pending', subtasks: [leaf('a'), leaf('b'), leaf('c')] };
+      const estimator = new ReliabilityEstimator({ ...config, composition: { mode: 'llm' } }, root);
+      expect(estimator.steps()).toBe(4);
+      expect(new ReliabilityEstimator(config, root).steps()).toBe(3);
+
+      const initial = estimator.chooseK();
+      expect(initial).toMatchObject({ accuracy: 0.8, steps: 4, target: 0.95, k: requiredK(0.8, 4, 0.95) });
+      expect(initial.predictedSuccess).toBeGreaterThanOrEqual(0.95);
+
+      estimator.observe({ samples: 6, votes: 4, redFlagged: 2, failed: 0, timedOut: 0 }, 2);
+      expect(estimator.accuracy()).toBeCloseTo((2 + 0.8 * 5) / (6 + 5));
+      expect(estimator.chooseK().k).toBeGreaterThan(initial.k);
+    });
+
+    it('should reject margins and reliability settings that are out of range', () => {
+      const reliability = (settings: MakerConfig['reliability']): MakerConfig => ({ ...config, reliability: settings });
+      expect(() => checkVotingMargin(config)).not.toThrow();
+      expect(() => checkVotingMargin({ ...config, votingThreshold: 1.5 })).toThrow('votingThreshold must be a positive integer');
+      expect(() => checkVotingMargin(reliability({ target: 1 }))).toThrow('reliability.target must be a number between 0 and 1.');
+      expect(() => checkVotingMargin(reliability({ priorAccuracy: NaN }))).toThrow('reliability.priorAccuracy must be a number between 0 and 1.');
+      expect(() => checkVotingMargin(reliability({ maxK: 0 }))).toThrow('reliability.maxK must be a positive integer.');
+      expect(() => checkVotingMargin(reliability({ minK: 12 }))).toThrow('reliability.minK must not be greater than reliability.maxK.');
+    });
+  });
+
+  describe('Timeouts', () => {
+    it('should cancel a session that runs past its time limit', async () => {
+      const cancelled: string[] = [];
+      const executor: IMakerExecutor = {
+        name: 'stuck',
+        start: async () => ({ sessionId: 'stuck-1', status: 'started' }),
+        getStatus: async sessionId => ({ sessionId, status: 'pending' }),
+        cancel: async sessionId => {
+          cancelled.push(sessionId);
+        },
+        fetchOutput: async () => undefined
+      };
+
+      await expect(runSession(executor, { repoName: 'r', prompt: 'p' }, 'decomposition', 0.01))
+        .rejects.toMatchObject({ name: 'PhaseTimeoutError', phase: 'decomposition', seconds: 0.01 });
+      expect(cancelled).toEqual(['stuck-1']);
+
+      const controller = new AbortController();
+      const pending = runSession(executor, { repoName: 'r', prompt: 'p' }, 'decomposition', undefined, controller.signal);
+      controller.abort();
+      await expect(pending).rejects.toThrow(RunCancelledError);
+      expect(cancelled).toEqual(['stuck-1', 'stuck-1']);
+    });
+
+    it('should return the result of a session that finishes in time', async () => {
+      const executor: IMakerExecutor = {
+        name: 'quick',
+        start: async options => ({ sessionId: 'quick-1', status: options.wait ? 'completed' : 'started' }),
+        getStatus: async sessionId => ({ sessionId, status: 'completed', output: 'done' }),
+        cancel: async () => undefined,
+        fetchOutput: async () => undefined
+      };
+
+      await expect(runSession(executor, { repoName: 'r', prompt: 'p', wait: true }, 'decomposition', 5))
+        .resolves.toEqual({ sessionId: 'quick-1', status: 'completed', output: 'done' });
+    });
+
+    it('should tell the run deadline apart from a cancellation', async () => {
+      const deadline = new RunDeadline(null, 0.01);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(deadline.signal.aborted).toBe(true);
+      expect(deadline.hasExpired).toBe(true);
+
+      const controller = new AbortController();
+      const cancelled = new RunDeadline(controller.signal, 60);
+      controller.abort();
+      expect(cancelled.signal.aborted).toBe(true);
+      expect(cancelled.hasExpired).toBe(false);
+      cancelled.dispose();
+    });
+  });
+
+  describe('Events and plugins', () => {
+    const task: IMakerTask = { id: 'task-1', description: 'Write the parser', status: 'in-progress' };
+
+    it('should deliver events in order and survive failing handlers', async () => {
+      const bus = new MakerEventBus();
+      const seen: string[] = [];
+      bus.on('task:completed', () => { throw new Error('Broken handler'); });
+      const off = bus.on('task:completed', ({ task }) => { seen.push(task.id); });
+
+      await bus.emit('task:completed', { task });
+      off();
+      await bus.emit('task:completed', { task });
+
+      expect(seen).toEqual(['task-1']);
+    });
+
+    it('should chain hook values and stop at the first veto', async () => {
+      const host = new PluginHost([
+        { name: 'upper', hooks: { beforeAccept: (_task, result) => ({ value: result.toUpperCase() }) } },
+        { name: 'policy', hooks: { beforeAccept: (_task, result) => result.includes('SECRET') ? { veto: 'Leaks a secret.' } : undefined } },
+        { name: 'never-reached', hooks: { beforeAccept: () => ({ value: 'changed' }) } }
+      ]);
+
+      expect(await host.runHook('beforeAccept', task, 'ok')).toEqual({ value: 'changed' });
+      expect(await host.runHook('beforeAccept', task, 'a secret')).toEqual({
+        value: 'A SECRET',
+        veto: { plugin: 'policy', hook: 'beforeAccept', reason: 'Leaks a secret.' }
+      });
+    });
+
+    it('should treat a throwing hook as a veto', async () => {
+      const host = new PluginHost([{ name: 'broken', hooks: { beforeVote: () => { throw new Error('boom'); } } }]);
+
+      const outcome = await host.runHook('beforeVote', task, 'prompt');
+
+      expect(outcome.veto).toEqual({ plugin: 'broken', hook: 'beforeVote', reason: 'beforeVote hook failed: boom' });
+    });
+  });
+
+  describe('Plan files', () => {
+    it('should parse and write the YAML subset used by plans', () => {
+      const parsed = parseYaml([
+        '# A plan',
+        'id: root',
+        'description: "Build: a calculator"',
+        'tasks:',
+        '  - description: Write the parser  # trailing comment',
+        '    minimal: true',
+        '    after: [task-a, \'task-b\']',
+        '  - id: task-c',
+        '    description: |',
+        '      Line one',
+        '      Line two',
+        'empty: []'
+      ].join('\n'));
+
+      expect(parsed).toEqual({
+        id: 'root',
+        description: 'Build: a calculator',
+        tasks: [
+          { description: 'Write the parser', minimal: true, after: ['task-a', 'task-b'] },
+          { id: 'task-c', description: 'Line one\nLine two\n' }
+        ],
+        empty: []
+      });
+      expect(parseYaml(stringifyYaml(parsed))).toEqual(parsed);
+      expect(() => parseYaml('tasks:\n  - a\n bad: 1')).toThrow('Invalid YAML at line 3');
+    });
+
+    it('should build the same tree from the YAML and Markdown forms of a plan', () => {
+      const root = buildTaskTree(parsePlan([
+        '# Build a calculator {#root repo=octocat/calc}',
+        '',
+        '- Write the evaluator {#task-b after=task-a}',
+        '  - Evaluate numbers {.minimal}',
+        '- Write the parser {#task-a .minimal}'
+      ].join('\n'), 'markdown'));
+
+      expect(root.metadata).toEqual({ depth: 0, repoName: 'octocat/calc' });
+      expect(root.subtasks!.map(task => [task.id, task.dependencies])).toEqual([['task-b', ['task-a']], ['task-a', undefined]]);
+      expect(root.subtasks![0].subtasks![0].metadata).toMatchObject({ depth: 2, isMinimal: true });
+      expect(root.subtasks![0].subtasks![0].id).toMatch(/^task-/);
+
+      const fromYaml = buildTaskTree(parsePlan(renderPlan(root, 'yaml'), 'yaml'));
+      expect(fromYaml).toEqual(root);
+      expect(renderPlan(fromYaml, 'markdown')).toBe(renderPlan(root, 'markdown'));
+    });
+
+    it('should keep criteria, sampling and multi-line text in Markdown outlines', () => {
+      const root = buildTaskTree({
+        id: 'root',
+        description: 'Build a calculator',
+        criteria: ['Runs offline'],
+        tasks: [
+          {
+            id: 'task-a',
+            description: 'Write the parser\nin src\\parser.ts',
+            minimal: true,
+            criteria: ['Parses negative numbers', '[ ] is not a checkbox'],
+            sampling: { mode: 'adaptive', batchSize: 5 }
+          },
+          { id: 'task-b', description: '[draft] Write the evaluator', after: ['task-a'], tasks: [{ id: 'task-c', description: 'Evaluate', criteria: ['Handles 1/0'] }] }
+        ]
+      });
+
+      const outline = renderPlan(root, 'markdown');
+      expect(outline).toContain('- Write the parser\\nin src\\\\parser.ts {#task-a .minimal sampling.mode=adaptive sampling.batchSize=5}\n  - [ ] Parses negative numbers');
+      expect(buildTaskTree(parsePlan(outline, 'markdown'))).toEqual(root);
+      expect(() => parsePlan('# Goal\n- Task {sampling.batchSize=0}', 'markdown')).toThrow('Invalid plan outline at line 2: sampling.batchSize');
+    });
+
+    it('should keep braces that end a description in Markdown outlines', () => {
+      const plan = parsePlan('# Goal\n- Return { ok: true }\n- Return `{ ok: false }` {#b .minimal}', 'markdown');
+      expect(plan.tasks!.map(node => [node.description, node.id, node.minimal])).toEqual([
+        ['Return { ok: true }', undefined, undefined],
+        ['Return `{ ok: false }`', 'b', true]
+      ]);
+
+      const root = buildTaskTree(plan);
+      expect(buildTaskTree(parsePlan(renderPlan(root, 'markdown'), 'markdown'))).toEqual(root);
+      expect(() => parsePlan('# Goal\n- Task {#a colour=red}', 'markdown')).toThrow('unknown attribute "colour=red"');
+    });
+
+    it('should reject plans with repeated IDs, non-sibling prerequisites or bad depths', () => {
+      expect(() => buildTaskTree(parsePlan('# Goal\n- A {#x}\n- B {#x}', 'markdown'))).toThrow('Task ID x is used more than once');
+      expect(() => buildTaskTree(parsePlan('# Goal\n- A {#a}\n  - B {#b}\n- C {#c after=b}', 'markdown'))).toThrow('must be siblings');
+      expect(() => buildTaskTree(parsePlan('# Goal\n- A {#a after=b}\n- B {#b after=a}', 'markdown'))).toThrow('would create a cycle');
+      expect(() => parsePlan('description: Goal\ntasks:\n  - minimal: true', 'yaml')).toThrow('plan.tasks[0].description must be a non-empty string');
+      expect(buildTaskTree(parsePlan('description: Goal\ntasks:\n  - description: A\n  - description: B\n    sampling:\n      mode: adaptive', 'yaml')).subtasks![1].sampling).toEqual({ mode: 'adaptive' });
+      expect(() => parsePlan('description: Goal\nsampling:\n  batchSize: 0', 'yaml')).toThrow('plan.sampling.batchSize must be a positive number');
+      expect(() => parsePlan('description: Goal\nsampling:\n  mode: greedy', 'yaml')).toThrow('plan.sampling.mode must be fixed or adaptive');
+
+      const tree: IMakerTask = {
+        id: 'root', description: 'Goal', status: 'pending', metadata: { depth: 0 },
+        subtasks: [{ id: 'a', description: 'A', status: 'pending', metadata: { depth: 2 } }]
+      };
+      expect(() => new TaskTreeManager().validateTree(tree)).toThrow('Task a has depth 2 but sits at depth 1.');
+    });
+  });
+
+  describe('Verification checks', () => {
+    let tmpDir: string;
+    let repoPath: string;
+    let patch: string;
+    const task: IMakerTask = {
+      id: 'task-1',
+      description: 'Greet the world',
+      status: 'in-progress',
+      acceptanceCriteria: ['Says hello', 'Names the world']
+    };
+
+    beforeAll(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'maker-verify-'));
+      repoPath = path.join(tmpDir, 'repo');
+      fs.mkdirSync(repoPath);
+      const git = (...args: string[]) => execFileSync('git', ['-C', repoPath, ...args]).toString();
+      git('init', '-q', '-b', 'main');
+      fs.writeFileSync(path.join(repoPath, 'README.md'), 'hello\n');
+      git('add', '.');
+      git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'init');
+      fs.writeFileSync(path.join(repoPath, 'README.md'), 'hello world\n');
+      patch = git('diff');
+      git('checkout', '--', 'README.md');
+    });
+
+    afterAll(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should pipe plain candidates to the commands and stop at the first failure', async () => {
+      const checks = await runLocalChecks('hello world', task, {
+        commands: ['grep -q world', 'test "$MAKER_CRITERIA" = "$(printf \'Says hello\\nNames the world\')"', 'grep -q moon', 'true']
+      });
+
+      expect(checks.map(check => [check.name, check.passed])).toEqual([
+        ['grep -q world', true],
+        ['test "$MAKER_CRITERIA" = "$(printf \'Says hello\\nNames the world\')"', true],
+        ['grep -q moon', false]
+      ]);
+    });
+
+    it('should pass candidates too large for the environment in a file', async () => {
+      const candidate = `${'x'.repeat(256 * 1024)} needle`;
+      const checks = await runLocalChecks(candidate, task, {
+        commands: ['grep -q needle "$MAKER_CANDIDATE_FILE"', 'echo "$MAKER_CANDIDATE_FILE"']
+      });
+
+      expect(checks.map(check => check.passed)).toEqual([true, true]);
+      expect(fs.existsSync(checks[1].output!.trim())).toBe(false);
+    });
+
+    it('should apply patch candidates to a throwaway worktree before running the commands', async () => {
+      const candidate = `\`\`\`diff\n${patch.trimEnd()}\n\`\`\``;
+
+      const checks = await runLocalChecks(candidate, task, { commands: ['grep -q "hello world" README.md'], repoPath });
+
+      expect(checks).toEqual([{ name: 'grep -q "hello world" README.md', passed: true, output: '' }]);
+      expect(fs.readFileSync(path.join(repoPath, 'README.md'), 'utf-8')).toBe('hello\n');
+      expect(execFileSync('git', ['-C', repoPath, 'worktree', 'list']).toString().trim().split('\n')).toHaveLength(1);
+    });
+
+    it('should time out commands that run too long', async () => {
+      const checks = await runLocalChecks('x', task, { commands: ['sleep 5'], timeoutSeconds: 0.2 });
+
+      expect(checks[0].passed).toBe(false);
+      expect(checks[0].output).toContain('Timed out');
+    });
+
+    it('should share the caller\'s time limit between all commands', async () => {
+      const startedAt = Date.now();
+      const checks = await runLocalChecks('x', task, { commands: ['sleep 5', 'true'] }, 0.2);
+
+      expect(Date.now() - startedAt).toBeLessThan(2000);
+      expect(checks).toHaveLength(1);
+      expect(checks[0].output).toMatch(/^Timed out after 0\.\d+s\.$/);
+    });
+  });
+
+  describe('Command-line arguments', () => {
+    it('should not let boolean flags take the command as their value', () => {
+      expect(parseArgs(['--adaptive-sampling', 'run', 'Build a calculator', '--k', '3'])).toEqual({
+        params: { 'adaptive-sampling': 'true', k: '3' },
+        positionalArgs: ['run', 'Build a calculator']
+      });
+      expect(parseArgs(['run', 'idea', '--sync-issues', '--reuse-repo', 'calculators']).params).toEqual({
+        'sync-issues': 'true',
+        'reuse-repo': 'calculators'
+      });
+      expect(parseArgs(['--verify-llm', 'run', 'x'])).toEqual({ params: { 'verify-llm': 'true' }, positionalArgs: ['run', 'x'] });
+    });
   });
 });
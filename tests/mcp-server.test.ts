@@ -0,0 +1,134 @@
+import { PassThrough } from 'stream';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MakerMcpServer } from '../src/mcp/server.js';
+import { MakerConfig } from '../src/types/maker.js';
+
+describe('MakerMcpServer', () => {
+  let fixturePath: string;
+  let config: MakerConfig;
+
+  beforeAll(() => {
+    fixturePath = path.join(os.tmpdir(), `maker-mcp-fixture-${Date.now()}.json`);
+    fs.writeFileSync(fixturePath, JSON.stringify({
+      rules: [{ responses: [JSON.stringify({ subtasks: ['Parse', 'Evaluate'], rationale: 'Two steps', isMinimal: false })] }]
+    }));
+    config = {
+      maxRecursionDepth: 3,
+      votingThreshold: 2,
+      redFlagSeverityThreshold: 'high',
+      modelName: 'test-model',
+      executor: { type: 'scripted', fixturePath }
+    };
+  });
+
+  afterAll(() => {
+    fs.rmSync(fixturePath, { force: true });
+  });
+
+  /**
+   * Sends requests through a stdio-like stream pair and collects the responses.
+   */
+  async function exchange(messages: unknown[]): Promise<any[]> {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const server = new MakerMcpServer(config, input, output);
+
+    const chunks: string[] = [];
+    output.on('data', chunk => chunks.push(chunk.toString()));
+
+    const serving = server.serve();
+    input.end(messages.map(message => JSON.stringify(message)).join('\n') + '\n');
+    await serving;
+
+    return chunks.join('').trim().split('\n').filter(Boolean).map(line => JSON.parse(line));
+  }
+
+  const call = (id: number, name: string, args: unknown) => ({
+    jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: args }
+  });
+
+  it('should initialize and list the manifest tools', async () => {
+    const [init, list] = await exchange([
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {} } },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' }
+    ]);
+
+    expect(init.result.protocolVersion).toBe('2025-03-26');
+    expect(init.result.capabilities.tools).toBeDefined();
+    expect(list.result.tools.map((tool: any) => tool.name)).toEqual(['maker_decompose', 'maker_vote', 'maker_redflag']);
+    expect(list.result.tools[1].inputSchema.required).toEqual(['candidates']);
+  });
+
+  it('should decompose a task', async () => {
+    const [response] = await exchange([call(1, 'maker_decompose', { task: 'Build a calculator app' })]);
+
+    expect(response.result.structuredContent).toEqual({
+      subtasks: ['Parse', 'Evaluate'],
+      rationale: 'Two steps',
+      isMinimal: false
+    });
+  });
+
+  it('should vote with red-flagging and first-to-ahead-by-k', async () => {
+    const [response] = await exchange([call(1, 'maker_vote', {
+      candidates: ['The answer is forty-two.', 'nope', 'The answer is 41, I think.', '  The answer is forty-two.  ', 'The answer is forty-two.'],
+      k: 2
+    })]);
+
+    const result = response.result.structuredContent;
+    expect(result.winnerIndex).toBe(0);
+    expect(result.winner).toBe('The answer is forty-two.');
+    expect(result.votes).toEqual({ 0: 3, 2: 1 });
+    expect(result.redFlagged).toEqual([{ index: 1, reason: 'Output is too short to be a valid solution.', severity: 'high' }]);
+  });
+
+  it('should check a solution for red flags', async () => {
+    const [response] = await exchange([call(1, 'maker_redflag', { solution: "I'm sorry, but I can't do that." })]);
+
+    expect(response.result.structuredContent).toMatchObject({ isRedFlagged: true, severity: 'medium' });
+    expect(JSON.parse(response.result.content[0].text).isRedFlagged).toBe(true);
+  });
+
+  it('should reject arguments that do not match the input schema', async () => {
+    const [missing, wrongType, unknownTool] = await exchange([
+      call(1, 'maker_vote', {}),
+      call(2, 'maker_vote', { candidates: [1, 2], k: 0 }),
+      call(3, 'maker_unknown', {})
+    ]);
+
+    expect(missing.error.code).toBe(-32602);
+    expect(missing.error.data).toEqual(['arguments.candidates is required']);
+    expect(wrongType.error.data).toEqual([
+      'arguments.candidates[0] must be of type string',
+      'arguments.candidates[1] must be of type string',
+      'arguments.k must be >= 1'
+    ]);
+    expect(unknownTool.error.message).toContain('Unknown tool');
+  });
+
+  it('should report malformed JSON and unknown methods', async () => {
+    const server = new MakerMcpServer(config, new PassThrough(), new PassThrough());
+    const output = (server as any).output as PassThrough;
+    const chunks: string[] = [];
+    output.on('data', chunk => chunks.push(chunk.toString()));
+
+    await server.handleLine('{not json');
+    await server.handleLine(JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'resources/list' }));
+
+    const [parseError, notFound] = chunks.join('').trim().split('\n').map(line => JSON.parse(line));
+    expect(parseError.error.code).toBe(-32700);
+    expect(notFound).toMatchObject({ id: 7, error: { code: -32601 } });
+  });
+
+  it('should reject JSON values that are not request objects without stopping', async () => {
+    const responses = await exchange([null, [], 'x', { jsonrpc: '2.0', id: 1, method: 'tools/list' }]);
+
+    expect(responses.slice(0, 3)).toEqual([0, 1, 2].map(() => ({
+      jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid request' }
+    })));
+    expect(responses[3]).toMatchObject({ id: 1, result: { tools: expect.any(Array) } });
+  });
+});